@@ -5,8 +5,12 @@ import { LoginScreen } from '@/components/LoginScreen';
 import { SignupScreen } from '@/components/SignupScreen';
 import { UserEntryScreen } from '@/components/UserEntryScreen';
 import { DashboardScreen } from '@/components/DashboardScreen';
+import { SetPasswordScreen } from '@/components/SetPasswordScreen';
 import { supabase } from '@/utils/supabase/client';
 import { Toaster } from '@/components/ui/sonner';
+import { getSearchParam, setSearchParams } from '@/lib/urlState';
+import { can } from '@/lib/permissions';
+import { INVITE_PARAM, SET_PASSWORD_PARAM } from '@/lib/users';
 import type { User } from '@/types';
 
 export default function HomePage() {
@@ -14,6 +18,10 @@ export default function HomePage() {
   const [loading, setLoading] = useState(true);
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [showSignup, setShowSignup] = useState(false);
+  // Set when a password reset link brought the user here
+  const [settingPassword, setSettingPassword] = useState(() => getSearchParam(SET_PASSWORD_PARAM) !== null);
+  // Set when an invite link brought the user here
+  const [inviteToken, setInviteToken] = useState(() => getSearchParam(INVITE_PARAM));
 
   useEffect(() => {
     checkSession();
@@ -39,10 +47,16 @@ export default function HomePage() {
     setShowSignup(false);
   };
 
+  const clearInvite = () => {
+    setSearchParams({ [INVITE_PARAM]: null });
+    setInviteToken(null);
+  };
+
   const handleSignup = (userData: User, token: string) => {
     setUser(userData);
     setAccessToken(token);
     setShowSignup(false);
+    clearInvite();
   };
 
   const handleLogout = async () => {
@@ -69,10 +83,14 @@ export default function HomePage() {
     return (
       <div className="min-h-screen bg-gray-50">
         <Toaster />
-        {showSignup ? (
+        {showSignup || inviteToken ? (
           <SignupScreen 
             onSignup={handleSignup} 
-            onBackToLogin={() => setShowSignup(false)} 
+            onBackToLogin={() => {
+              setShowSignup(false);
+              clearInvite();
+            }} 
+            inviteToken={inviteToken}
           />
         ) : (
           <LoginScreen 
@@ -84,13 +102,29 @@ export default function HomePage() {
     );
   }
 
-  // Logged in - check role
-  const isSuperAdmin = user.user_metadata?.role === 'super_admin';
+  if (settingPassword) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Toaster />
+        <SetPasswordScreen
+          user={user}
+          onDone={() => {
+            setSearchParams({ [SET_PASSWORD_PARAM]: null });
+            setSettingPassword(false);
+          }}
+        />
+      </div>
+    );
+  }
+
+  // Logged in - roles that can see the board get the dashboard. This only
+  // picks the screen; the server checks the role on every request.
+  const canViewBoard = can(user, 'entries.view');
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Toaster />
-      {isSuperAdmin ? (
+      {canViewBoard ? (
         <DashboardScreen
           user={user}
           accessToken={accessToken}
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { Control } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ADDRESS_PART_RULES, type EntryFormValues, type EntryValues } from '@/lib/validation';
+import type { AddressParts } from '@/types';
+
+const PLACEHOLDERS: Record<keyof AddressParts, string> = {
+  line1: 'Street and number',
+  line2: 'Apartment, suite, floor',
+  city: 'City',
+  state: 'State or region',
+  postalCode: 'Postal code',
+  country: 'Country',
+};
+
+interface AddressFieldsProps {
+  control: Control<EntryFormValues, unknown, EntryValues>;
+  disabled?: boolean;
+  // Applied to each input
+  inputClassName?: string;
+}
+
+// The address parts of an entry form. Must be rendered inside <Form>.
+export function AddressFields({ control, disabled, inputClassName }: AddressFieldsProps) {
+  const renderField = (part: keyof AddressParts) => {
+    const { label, min } = ADDRESS_PART_RULES[part];
+    return (
+      <FormField
+        key={part}
+        control={control}
+        name={`addressParts.${part}`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-sm font-normal text-muted-foreground">
+              {label}
+              {min === 0 && ' (optional)'}
+            </FormLabel>
+            <FormControl>
+              <Input
+                type="text"
+                {...field}
+                placeholder={PLACEHOLDERS[part]}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {renderField('line1')}
+      {renderField('line2')}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {renderField('city')}
+        {renderField('state')}
+        {renderField('postalCode')}
+        {renderField('country')}
+      </div>
+    </div>
+  );
+}
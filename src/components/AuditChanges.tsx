@@ -0,0 +1,33 @@
+import React from 'react';
+import { auditFieldLabel, formatAuditValue, splitCustomFieldChanges } from '@/lib/audit';
+import type { AuditChange } from '@/types';
+
+interface AuditChangesProps {
+  changes: AuditChange[];
+}
+
+export function AuditChanges({ changes }: AuditChangesProps) {
+  // Address parts usually change along with the one-line address, which is
+  // easier to read
+  const visible = splitCustomFieldChanges(
+    changes.some(change => change.field === 'address')
+      ? changes.filter(change => change.field !== 'addressParts')
+      : changes
+  );
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="rounded-md bg-muted/30 p-3 text-sm space-y-1">
+      {visible.map(change => (
+        <div key={change.field} className="grid grid-cols-[6rem_1fr] gap-2">
+          <span className="text-muted-foreground">{auditFieldLabel(change.field)}</span>
+          <span className="break-words">
+            <span className="line-through text-red-700/80">{formatAuditValue(change.before)}</span>
+            {' → '}
+            <span className="text-emerald-700">{formatAuditValue(change.after)}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
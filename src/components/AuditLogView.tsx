@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calendar, History, Loader2, RotateCcw, User as UserIcon, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { AUDIT_ACTION_STYLES, formatAuditActor } from '@/lib/audit';
+import { AuditChanges } from '@/components/AuditChanges';
+import type { AuditEvent } from '@/types';
+
+const PAGE_SIZE = 25;
+const FILTER_DEBOUNCE_MS = 300;
+
+interface AuditLogViewProps {
+  accessToken: string | null;
+  entryId: string;
+  onEntryIdChange: (entryId: string) => void;
+}
+
+export function AuditLogView({ accessToken, entryId, onEntryIdChange }: AuditLogViewProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [actor, setActor] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [filters, setFilters] = useState({ actor: '', entryId });
+
+  // Only query once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setFilters({ actor: actor.trim(), entryId: entryId.trim() }),
+      FILTER_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [actor, entryId]);
+
+  const fetchEvents = useCallback(async (cursor: string | null = null) => {
+    setLoading(true);
+    try {
+      const page = await peopleBoardApi.listAuditEvents(accessToken, {
+        actorId: filters.actor,
+        entryId: filters.entryId,
+        from: dateFrom,
+        to: dateTo,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      setEvents(prev => cursor ? [...prev, ...page.events] : page.events);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Fetch audit log error:', error);
+      toast.error('Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, filters, dateFrom, dateTo]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const hasFilters = actor || entryId || dateFrom || dateTo;
+
+  const handleReset = () => {
+    setActor('');
+    onEntryIdChange('');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg">Audit Log</CardTitle>
+          <History className="h-4 w-4 text-muted-foreground" />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Every change made to people on the board, newest first.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground flex items-center gap-2">
+              <UserIcon className="h-4 w-4" />
+              Actor
+            </label>
+            <Input
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              placeholder="User ID or email"
+              className="h-10"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              Entry ID
+            </label>
+            <Input
+              value={entryId}
+              onChange={(e) => onEntryIdChange(e.target.value)}
+              placeholder="Entry ID"
+              className="h-10"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              From Date
+            </label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="h-10" />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              To Date
+            </label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="h-10" />
+          </div>
+        </div>
+        {hasFilters && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset Filters
+            </Button>
+          </div>
+        )}
+
+        {/* Events */}
+        {!loading && events.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <History className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">No Audit Events</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              {hasFilters ? 'No changes match these filters.' : 'Changes to people will be recorded here.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {events.map(event => (
+              <div key={event.id} className="p-4 rounded-lg border border-border/50 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="secondary" className={AUDIT_ACTION_STYLES[event.action].className}>
+                      {AUDIT_ACTION_STYLES[event.action].label}
+                    </Badge>
+                    <span className="font-medium text-foreground">{event.entryName}</span>
+                    <button
+                      onClick={() => onEntryIdChange(event.entryId)}
+                      className="text-xs text-muted-foreground hover:text-foreground font-mono"
+                      title="Show only this entry"
+                    >
+                      {event.entryId}
+                    </button>
+                    {event.relatedEntryId && (
+                      <span className="text-xs text-muted-foreground">
+                        with{' '}
+                        <button
+                          onClick={() => onEntryIdChange(event.relatedEntryId!)}
+                          className="hover:text-foreground font-mono"
+                          title="Show only this entry"
+                        >
+                          {event.relatedEntryId}
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {formatAuditActor(event)}
+                    {' · '}
+                    {new Date(event.timestamp).toLocaleString()}
+                  </div>
+                </div>
+                <AuditChanges changes={event.changes} />
+              </div>
+            ))}
+
+            {loading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!loading && nextCursor && (
+              <div className="flex justify-center pt-2">
+                <Button variant="outline" onClick={() => fetchEvents(nextCursor)}>
+                  Load More
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface AuthLinkDialogProps {
+  title: string;
+  // Who the link is for and what it does
+  description: string;
+  // null when the server can't make links
+  link: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Shows a one-time invite or password reset link for the admin to pass on.
+export function AuthLinkDialog({ title, description, link, isOpen, onClose }: AuthLinkDialogProps) {
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Link copied');
+    } catch (error) {
+      console.error('Copy link error:', error);
+      toast.error('Failed to copy the link; select it and copy it instead');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md mx-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="flex gap-2 py-2">
+            <Input value={link} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-2">
+            This server can&apos;t create sign-in links. Connect it to a Supabase project to hand out invite and
+            password reset links.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
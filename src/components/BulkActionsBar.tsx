@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Download, Loader2, Minus, Plus, Tag as TagIcon, Trash2, UserCog, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { TAG_COLOR_CLASSES } from '@/lib/tags';
+import type { EntryOwner, Tag } from '@/types';
+
+type PendingAction = 'delete' | 'reassign' | null;
+
+interface BulkActionsBarProps {
+  accessToken: string | null;
+  selectedCount: number;
+  // Human readable description of the selection, e.g. "all 240 people matching the current filters"
+  selectionLabel: string;
+  // Actions the user isn't allowed are left out and not shown
+  onExport?: () => void;
+  onDelete?: () => Promise<void>;
+  onReassign?: (userId: string) => Promise<void>;
+  // Tags that can be added to or removed from the selection
+  tags: Tag[];
+  onTag?: (action: 'tag' | 'untag', tagIds: string[]) => Promise<void>;
+  onClear: () => void;
+}
+
+export function BulkActionsBar({
+  accessToken,
+  selectedCount,
+  selectionLabel,
+  onExport,
+  onDelete,
+  onReassign,
+  tags,
+  onTag,
+  onClear,
+}: BulkActionsBarProps) {
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [ownerId, setOwnerId] = useState('');
+  // Loaded when the reassign dialog is first opened
+  const [owners, setOwners] = useState<EntryOwner[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const openReassign = async () => {
+    setPendingAction('reassign');
+    if (owners) return;
+    try {
+      setOwners(await peopleBoardApi.listEntryOwners(accessToken));
+    } catch (error) {
+      console.error('Fetch owners error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load accounts');
+      setPendingAction(null);
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setPendingAction(null);
+      setOwnerId('');
+    } catch (error) {
+      console.error('Bulk action error:', error);
+      toast.error(error instanceof Error ? error.message : 'Bulk action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = (e: React.MouseEvent) => {
+    // Keep the dialog open until the request finishes
+    e.preventDefault();
+    if (pendingAction === 'delete' && onDelete) {
+      run(onDelete);
+    } else if (pendingAction === 'reassign' && onReassign && ownerId) {
+      run(() => onReassign(ownerId));
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 mb-4 rounded-lg border border-blue-200 bg-blue-50">
+        <p className="text-sm font-medium text-blue-900">
+          {selectedCount} selected
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {onExport && (
+            <Button variant="outline" size="sm" onClick={onExport} disabled={busy}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          )}
+          {onTag && tags.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={busy}>
+                  <TagIcon className="h-4 w-4 mr-2" />
+                  Tags
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {([
+                  ['tag', 'Add Tag', Plus],
+                  ['untag', 'Remove Tag', Minus],
+                ] as const).map(([action, label, Icon]) => (
+                  <DropdownMenuSub key={action}>
+                    <DropdownMenuSubTrigger>
+                      <Icon className="h-4 w-4 mr-2" />
+                      {label}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                      {tags.map(tag => (
+                        <DropdownMenuItem key={tag.id} onClick={() => run(() => onTag(action, [tag.id]))}>
+                          <Badge variant="outline" className={TAG_COLOR_CLASSES[tag.color]}>
+                            {tag.name}
+                          </Badge>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {onReassign && (
+            <Button variant="outline" size="sm" onClick={openReassign} disabled={busy}>
+              <UserCog className="h-4 w-4 mr-2" />
+              Reassign Owner
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPendingAction('delete')}
+              disabled={busy}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={busy}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => {
+          if (!open && !busy) setPendingAction(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction === 'delete'
+                ? `Delete ${selectedCount} ${selectedCount === 1 ? 'person' : 'people'}?`
+                : `Reassign ${selectedCount} ${selectedCount === 1 ? 'person' : 'people'}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === 'delete'
+                ? `This moves ${selectionLabel} to the trash. They can be restored from the Trash tab.`
+                : `The owner of ${selectionLabel} will be changed to the account below.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {pendingAction === 'reassign' && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-owner" className="text-sm font-medium">
+                New owner
+              </Label>
+              <Select value={ownerId} onValueChange={setOwnerId} disabled={busy || !owners}>
+                <SelectTrigger id="bulk-owner">
+                  <SelectValue placeholder={owners ? 'Choose an account' : 'Loading accounts...'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {owners?.map(owner => (
+                    <SelectItem key={owner.id} value={owner.id}>
+                      {owner.name ? `${owner.name} (${owner.email})` : owner.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busy}>Cancel</AlertDialogCancel>
+            <Button
+              onClick={handleConfirm}
+              disabled={busy || (pendingAction === 'reassign' && !ownerId)}
+              variant={pendingAction === 'delete' ? 'destructive' : 'default'}
+            >
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pendingAction === 'delete' ? 'Delete' : 'Reassign'}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
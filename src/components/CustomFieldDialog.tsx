@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { CUSTOM_FIELD_TYPES, LENGTH_LIMITED_TYPES } from '@/lib/customFields';
+import type { CustomFieldDefinition, CustomFieldInput, CustomFieldType } from '@/types';
+
+interface CustomFieldDialogProps {
+  // The field to edit, or null to add one
+  field: CustomFieldDefinition | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (field: CustomFieldDefinition) => void;
+  accessToken: string | null;
+}
+
+const toLimit = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export function CustomFieldDialog({ field, isOpen, onClose, onSave, accessToken }: CustomFieldDialogProps) {
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [required, setRequired] = useState(false);
+  // One option per line
+  const [options, setOptions] = useState('');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLabel(field?.label ?? '');
+      setType(field?.type ?? 'text');
+      setRequired(field?.required ?? false);
+      setOptions(field?.options?.join('\n') ?? '');
+      setMin(field?.min?.toString() ?? '');
+      setMax(field?.max?.toString() ?? '');
+      setPattern(field?.pattern ?? '');
+    }
+  }, [isOpen, field]);
+
+  const hasLengthLimits = LENGTH_LIMITED_TYPES.includes(type);
+  const hasLimits = hasLengthLimits || type === 'number';
+
+  const handleSave = async () => {
+    // The server checks the definition and reports the first problem
+    const input: CustomFieldInput = { label, type, required };
+    if (type === 'select') input.options = options.split('\n');
+    if (hasLimits) {
+      input.min = toLimit(min);
+      input.max = toLimit(max);
+    }
+    if (type === 'text' || type === 'textarea') input.pattern = pattern;
+
+    setLoading(true);
+    try {
+      const saved = field
+        ? await peopleBoardApi.updateCustomField(accessToken, field.key, input)
+        : await peopleBoardApi.createCustomField(accessToken, input);
+      onSave(saved);
+      onClose();
+    } catch (error) {
+      console.error('Save custom field error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save custom field');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{field ? 'Edit Field' : 'Add Field'}</DialogTitle>
+          <DialogDescription>
+            {field
+              ? "Changes apply the next time an entry is saved. A field's type can't be changed."
+              : 'The field is added to the entry forms for every user.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="custom-field-label" className="text-sm font-medium">Label</Label>
+            <Input
+              id="custom-field-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Date of birth"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as CustomFieldType)} disabled={loading || field !== null}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOM_FIELD_TYPES.map(option => (
+                  <SelectItem key={option.type} value={option.type}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="custom-field-required" className="text-sm font-medium">
+              {type === 'checkbox' ? 'Must be checked' : 'Required'}
+            </Label>
+            <Switch id="custom-field-required" checked={required} onCheckedChange={setRequired} disabled={loading} />
+          </div>
+
+          {type === 'select' && (
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-options" className="text-sm font-medium">Options</Label>
+              <Textarea
+                id="custom-field-options"
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                placeholder={'One option per line, e.g.\nSales\nSupport'}
+                rows={4}
+                disabled={loading}
+              />
+            </div>
+          )}
+
+          {hasLimits && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-min" className="text-sm font-medium">
+                  {hasLengthLimits ? 'Min length' : 'Min value'}
+                </Label>
+                <Input id="custom-field-min" type="number" value={min} onChange={(e) => setMin(e.target.value)} disabled={loading} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-max" className="text-sm font-medium">
+                  {hasLengthLimits ? 'Max length' : 'Max value'}
+                </Label>
+                <Input id="custom-field-max" type="number" value={max} onChange={(e) => setMax(e.target.value)} disabled={loading} />
+              </div>
+            </div>
+          )}
+
+          {(type === 'text' || type === 'textarea') && (
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-pattern" className="text-sm font-medium">Pattern (optional)</Label>
+              <Input
+                id="custom-field-pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder="Regular expression, e.g. ^[A-Z]{2}[0-9]{4}$"
+                className="font-mono"
+                disabled={loading}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={loading || !label.trim()}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Field'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import React from 'react';
+import type { Control } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import type { EntryFormValues, EntryValues } from '@/lib/validation';
+import type { CustomFieldDefinition } from '@/types';
+
+// Select items can't have an empty value
+const NO_CHOICE = '__none__';
+
+const INPUT_TYPES: Partial<Record<CustomFieldDefinition['type'], string>> = {
+  email: 'email',
+  number: 'number',
+  date: 'date',
+};
+
+interface CustomFieldInputsProps {
+  control: Control<EntryFormValues, unknown, EntryValues>;
+  fields: CustomFieldDefinition[];
+  disabled?: boolean;
+  // Applied to each single-line input
+  inputClassName?: string;
+}
+
+// The custom fields of an entry form, in the order the admins set. Must be
+// rendered inside <Form>.
+export function CustomFieldInputs({ control, fields, disabled, inputClassName }: CustomFieldInputsProps) {
+  return (
+    <div className="space-y-4">
+      {fields.map(definition => (
+        <FormField
+          key={definition.key}
+          control={control}
+          name={`customFields.${definition.key}`}
+          render={({ field }) => {
+            if (definition.type === 'checkbox') {
+              return (
+                <FormItem>
+                  <div className="flex items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value === true}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        onBlur={field.onBlur}
+                        ref={field.ref}
+                        disabled={disabled}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">{definition.label}</FormLabel>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              );
+            }
+
+            const value = String(field.value ?? '');
+            return (
+              <FormItem>
+                <FormLabel className="text-sm font-medium">
+                  {definition.label}
+                  {!definition.required && ' (optional)'}
+                </FormLabel>
+                {definition.type === 'select' ? (
+                  <Select
+                    value={value}
+                    onValueChange={(choice) => field.onChange(choice === NO_CHOICE ? '' : choice)}
+                    disabled={disabled}
+                  >
+                    <FormControl>
+                      <SelectTrigger ref={field.ref} onBlur={field.onBlur} className={`w-full ${inputClassName ?? ''}`}>
+                        <SelectValue placeholder="Choose an option" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {!definition.required && <SelectItem value={NO_CHOICE}>None</SelectItem>}
+                      {definition.options?.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : definition.type === 'textarea' ? (
+                  <FormControl>
+                    <Textarea {...field} value={value} rows={3} disabled={disabled} />
+                  </FormControl>
+                ) : (
+                  <FormControl>
+                    <Input
+                      type={INPUT_TYPES[definition.type] ?? 'text'}
+                      {...field}
+                      value={value}
+                      className={inputClassName}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                )}
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Edit, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { CUSTOM_FIELD_TYPES } from '@/lib/customFields';
+import { CustomFieldDialog } from '@/components/CustomFieldDialog';
+import type { CustomFieldDefinition } from '@/types';
+
+interface CustomFieldsViewProps {
+  accessToken: string | null;
+  fields: CustomFieldDefinition[];
+  // Called with the new list after every change
+  onChange: (fields: CustomFieldDefinition[]) => void;
+}
+
+const typeLabel = (field: CustomFieldDefinition) =>
+  CUSTOM_FIELD_TYPES.find(option => option.type === field.type)?.label ?? field.type;
+
+// A short summary of the rules, e.g. "3 options" or "10–200 characters".
+const describeRules = (field: CustomFieldDefinition) => {
+  if (field.type === 'select') return `${field.options?.length ?? 0} options`;
+  const unit = field.type === 'number' ? '' : ' characters';
+  const limits =
+    field.min !== undefined && field.max !== undefined ? `${field.min}–${field.max}${unit}`
+    : field.min !== undefined ? `at least ${field.min}${unit}`
+    : field.max !== undefined ? `at most ${field.max}${unit}`
+    : '';
+  return [limits, field.pattern && 'pattern'].filter(Boolean).join(', ');
+};
+
+export function CustomFieldsView({ accessToken, fields, onChange }: CustomFieldsViewProps) {
+  const [busy, setBusy] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<CustomFieldDefinition | null>(null);
+
+  const openDialog = (field: CustomFieldDefinition | null) => {
+    setEditingField(field);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaved = (saved: CustomFieldDefinition) => {
+    const exists = fields.some(field => field.key === saved.key);
+    onChange(exists ? fields.map(field => (field.key === saved.key ? saved : field)) : [...fields, saved]);
+    toast.success(`${saved.label} ${exists ? 'updated' : 'added'}`);
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const keys = fields.map(field => field.key);
+    [keys[index], keys[index + offset]] = [keys[index + offset], keys[index]];
+    setBusy(true);
+    try {
+      onChange(await peopleBoardApi.reorderCustomFields(accessToken, keys));
+    } catch (error) {
+      console.error('Reorder custom fields error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reorder fields');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (target: CustomFieldDefinition) => {
+    setBusy(true);
+    try {
+      await peopleBoardApi.deleteCustomField(accessToken, target.key);
+      onChange(fields.filter(field => field.key !== target.key));
+      toast.success(`${target.label} deleted`);
+    } catch (error) {
+      console.error('Delete custom field error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete field');
+    } finally {
+      setBusy(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <CardTitle className="text-lg">Custom Fields</CardTitle>
+            <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+              {fields.length} {fields.length === 1 ? 'field' : 'fields'}
+            </Badge>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => openDialog(null)}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Extra details collected for every person, shown on the entry forms in this order and available in exports.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {fields.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <SlidersHorizontal className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">No Custom Fields</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              Add fields such as an email address, date of birth or department to capture more about each person.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {fields.map((field, index) => (
+              <div
+                key={field.key}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-border/50"
+              >
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h3 className="font-medium text-foreground">{field.label}</h3>
+                    <Badge variant="outline">{typeLabel(field)}</Badge>
+                    {field.required && <Badge variant="secondary">Required</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-mono">{field.key}</span>
+                    {describeRules(field) && ` · ${describeRules(field)}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={busy || index === 0}
+                    aria-label={`Move ${field.label} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={busy || index === fields.length - 1}
+                    aria-label={`Move ${field.label} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => openDialog(field)} disabled={busy}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeleteTarget(field)}
+                    disabled={busy}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CustomFieldDialog
+        field={editingField}
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        onSave={handleSaved}
+        accessToken={accessToken}
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The field is removed from the entry forms and exports. Values already saved stay in each
+              person&apos;s history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && handleDelete(deleteTarget)}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              Delete Field
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
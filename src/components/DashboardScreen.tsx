@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -8,6 +8,7 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { 
   Search, 
   Download, 
+  Upload,
   Filter, 
   LogOut, 
   RotateCcw, 
@@ -21,13 +22,91 @@ import {
   ChevronDown,
   ChevronUp,
   MoreVertical,
+  History,
+  CopyCheck,
+  MapPin,
+  SlidersHorizontal,
+  Tags,
+  Columns3,
+  UserCog,
   X
 } from 'lucide-react';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
-import { projectId } from '@/utils/supabase/info';
+import { peopleBoardApi } from '@/lib/api';
 import { EditPersonDialog } from '@/components/EditPersonDialog';
-import type { User, UserEntry } from '@/types';
+import { EntriesPagination } from '@/components/EntriesPagination';
+import { BulkActionsBar } from '@/components/BulkActionsBar';
+import { ImportEntriesDialog } from '@/components/ImportEntriesDialog';
+import { TrashView } from '@/components/TrashView';
+import { AuditLogView } from '@/components/AuditLogView';
+import { DuplicatesView } from '@/components/DuplicatesView';
+import { EntryMapView } from '@/components/EntryMapView';
+import { CustomFieldsView } from '@/components/CustomFieldsView';
+import { TagsView } from '@/components/TagsView';
+import { SavedViewsBar } from '@/components/SavedViewsBar';
+import { UsersView } from '@/components/UsersView';
+import { TagBadges, TagToggleList } from '@/components/TagBadges';
+import { ExportDialog, type ExportScope, type ExportScopeOption } from '@/components/ExportDialog';
+import { EXPORT_FORMATS, exportEntries, type ExportFormat, type ExportOptions } from '@/lib/export';
+import { SortableTableHead } from '@/components/SortableTableHead';
+import { parseSort, serializeSort, toggleSort } from '@/lib/sort';
+import { getSearchParam, setSearchParams } from '@/lib/urlState';
+import { ALL_DIRECTORY_COLUMNS, DIRECTORY_COLUMNS, filtersFromUrl, filtersToSearchParams } from '@/lib/savedViews';
+import { subscribeToEntryChanges } from '@/lib/realtime';
+import { can } from '@/lib/permissions';
+import { formatPhone } from '@/lib/phone';
+import { TAG_COLOR_CLASSES } from '@/lib/tags';
+import { ROLE_LABELS } from '@/lib/users';
+import type {
+  BatchSelection,
+  CustomFieldDefinition,
+  DirectoryColumn,
+  EntryChange,
+  EntryFilter,
+  EntryStats,
+  SavedView,
+  SavedViewFilters,
+  SortField,
+  SortSpec,
+  Tag,
+  TagMode,
+  User,
+  UserEntry,
+} from '@/types';
+
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+// How long the Undo action stays available on edit and delete toasts
+const UNDO_WINDOW_MS = 10000;
+// How long rows that arrived over Realtime stay highlighted
+const HIGHLIGHT_MS = 4000;
+
+type PaginationState = {
+  queryKey: string;
+  // cursors[i] fetches page i; the first page has no cursor.
+  cursors: (string | null)[];
+  pageIndex: number;
+};
+
+// Rows picked one by one (kept with their data so they can be exported
+// across pages), or every row matching the filters except `excludeIds`.
+type Selection =
+  | { mode: 'ids'; entries: Record<string, UserEntry> }
+  | { mode: 'filter'; excludeIds: string[] };
+
+const EMPTY_SELECTION: Selection = { mode: 'ids', entries: {} };
+
+type DashboardTab = 'people' | 'duplicates' | 'map' | 'trash' | 'audit' | 'tags' | 'fields' | 'users';
 
 interface DashboardScreenProps {
   user: User;
@@ -36,109 +115,407 @@ interface DashboardScreenProps {
 }
 
 export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreenProps) {
+  // Anything the user's role can't do is hidden; the server refuses it anyway.
+  const canEdit = can(user, 'entries.edit');
+  const canDelete = can(user, 'entries.delete');
+  const canExport = can(user, 'entries.export');
+  const canImport = can(user, 'entries.import');
+  const canManageBoard = can(user, 'board.manage');
+  const canManageUsers = can(user, 'users.manage');
+  // Selected people can only be exported, tagged, reassigned or deleted
+  const canSelect = canExport || canEdit || canDelete;
+  const hasRowActions = canEdit || canDelete || canManageBoard;
+
   const [entries, setEntries] = useState<UserEntry[]>([]);
-  const [filteredEntries, setFilteredEntries] = useState<UserEntry[]>([]);
+  const [totalResults, setTotalResults] = useState(0);
+  const [stats, setStats] = useState<EntryStats>({
+    total: 0,
+    addedThisWeek: 0,
+    trashed: 0,
+    trashRetentionDays: 30,
+  });
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [activeTab, setActiveTab] = useState<DashboardTab>('people');
+  const [auditEntryId, setAuditEntryId] = useState('');
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [dateFrom, setDateFrom] = useState('');
-  const [dateTo, setDateTo] = useState('');
+  const [fetching, setFetching] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportFromSelection, setExportFromSelection] = useState(false);
+  // Filters start from the URL, so a shared link opens the same view.
+  const [initialFilters] = useState(filtersFromUrl);
+  const [searchTerm, setSearchTerm] = useState(initialFilters.q ?? '');
+  const [debouncedSearch, setDebouncedSearch] = useState(initialFilters.q ?? '');
+  const [dateFrom, setDateFrom] = useState(initialFilters.from ?? '');
+  const [dateTo, setDateTo] = useState(initialFilters.to ?? '');
+  const [tagFilter, setTagFilter] = useState<string[]>(initialFilters.tags ?? []);
+  const [tagMode, setTagMode] = useState<TagMode>(initialFilters.tagMode ?? 'any');
+  const [sort, setSort] = useState<SortSpec[]>(() => parseSort(initialFilters.sort ?? null));
+  const [columns, setColumns] = useState<DirectoryColumn[]>(initialFilters.columns ?? ALL_DIRECTORY_COLUMNS);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [pinnedViewIds, setPinnedViewIds] = useState<string[]>([]);
+  const [activeViewId, setActiveViewId] = useState(() => getSearchParam('view'));
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<UserEntry | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [pagination, setPagination] = useState<PaginationState>({
+    queryKey: '',
+    cursors: [null],
+    pageIndex: 0,
+  });
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+  // New entries that arrived while filters, a sort or a later page hid them
+  const [pendingArrivals, setPendingArrivals] = useState(0);
+  const latestRequest = useRef(0);
 
+  // Filtering happens on the server, so only query once typing pauses.
   useEffect(() => {
-    fetchEntries();
-  }, []);
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const sortParam = serializeSort(sort);
+  const queryKey = JSON.stringify([debouncedSearch, dateFrom, dateTo, tagFilter, tagMode, sortParam]);
 
+  // A selection only makes sense for the filters it was made under.
   useEffect(() => {
-    filterEntries();
-  }, [entries, searchTerm, dateFrom, dateTo]);
+    setSelection(EMPTY_SELECTION);
+  }, [queryKey]);
+
+  const viewFilters: SavedViewFilters = {
+    q: debouncedSearch,
+    from: dateFrom,
+    to: dateTo,
+    tags: tagFilter,
+    tagMode,
+    sort: sortParam,
+    columns,
+  };
+
+  // Keep the filters, sort, columns and view in the URL so they survive a
+  // reload and can be shared.
+  useEffect(() => {
+    setSearchParams({
+      ...filtersToSearchParams({ q: debouncedSearch, from: dateFrom, to: dateTo, tags: tagFilter, tagMode, sort: sortParam, columns }),
+      view: activeViewId,
+    });
+  }, [debouncedSearch, dateFrom, dateTo, tagFilter, tagMode, sortParam, columns, activeViewId]);
+
+  // Changing the filters starts over from the first page.
+  const page = pagination.queryKey === queryKey
+    ? pagination
+    : { queryKey, cursors: [null], pageIndex: 0 };
+  const cursor = page.cursors[page.pageIndex];
 
   const fetchEntries = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    setFetching(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-f328fde2/user-entries`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch entries');
-      }
+      const data = await peopleBoardApi.listEntries(accessToken, {
+        q: debouncedSearch,
+        from: dateFrom,
+        to: dateTo,
+        tags: tagFilter,
+        tagMode: tagFilter.length > 0 ? tagMode : undefined,
+        sort: sortParam || undefined,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      if (requestId !== latestRequest.current) return;
 
-      const data = await response.json();
-      setEntries(data);
+      setEntries(data.entries);
+      setTotalResults(data.total);
+      setPendingArrivals(0);
+      setPagination(prev => {
+        const current = prev.queryKey === queryKey
+          ? prev
+          : { queryKey, cursors: [null], pageIndex: 0 };
+        // The last entry of a trailing page was deleted; step back a page.
+        if (data.entries.length === 0 && current.pageIndex > 0) {
+          return { ...current, pageIndex: current.pageIndex - 1 };
+        }
+        const cursors = current.cursors.slice(0, current.pageIndex + 1);
+        if (data.nextCursor) {
+          cursors.push(data.nextCursor);
+        }
+        return { ...current, cursors };
+      });
     } catch (error) {
       console.error('Fetch entries error:', error);
       toast.error('Failed to load entries');
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setFetching(false);
+        setLoading(false);
+      }
+    }
+  }, [accessToken, debouncedSearch, dateFrom, dateTo, tagFilter, tagMode, sortParam, queryKey, cursor]);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setStats(await peopleBoardApi.getStats(accessToken));
+    } catch (error) {
+      console.error('Fetch stats error:', error);
     }
   }, [accessToken]);
 
-  const filterEntries = useCallback(() => {
-    let filtered = entries;
-
-    // Text search
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(entry =>
-        entry.name.toLowerCase().includes(term) ||
-        entry.mobile.includes(term) ||
-        entry.address.toLowerCase().includes(term)
-      );
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  const fetchCustomFields = useCallback(async () => {
+    try {
+      setCustomFields(await peopleBoardApi.listCustomFields(accessToken));
+    } catch (error) {
+      console.error('Fetch custom fields error:', error);
     }
+  }, [accessToken]);
 
-    // Date range filter
-    if (dateFrom) {
-      filtered = filtered.filter(entry =>
-        new Date(entry.dateAdded) >= new Date(dateFrom)
-      );
+  useEffect(() => {
+    fetchCustomFields();
+  }, [fetchCustomFields]);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      setTags(await peopleBoardApi.listTags(accessToken));
+    } catch (error) {
+      console.error('Fetch tags error:', error);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const fetchSavedViews = useCallback(async () => {
+    try {
+      const data = await peopleBoardApi.listSavedViews(accessToken);
+      setSavedViews(data.views);
+      setPinnedViewIds(data.pinnedIds);
+    } catch (error) {
+      console.error('Fetch saved views error:', error);
     }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchSavedViews();
+  }, [fetchSavedViews]);
+
+  // A deleted view can't be active; its filters stay applied.
+  const activeView = savedViews.find(view => view.id === activeViewId) ?? null;
 
-    if (dateTo) {
-      filtered = filtered.filter(entry =>
-        new Date(entry.dateAdded) <= new Date(dateTo)
-      );
+  const handleSavedViewsChange = (views: SavedView[], pinnedIds: string[]) => {
+    setSavedViews(views);
+    setPinnedViewIds(pinnedIds);
+    if (activeViewId && !views.some(view => view.id === activeViewId)) {
+      setActiveViewId(null);
     }
+  };
+
+  // Applies a view at once, skipping the search debounce; null shows everyone.
+  const applyView = (view: SavedView | null) => {
+    const filters = view?.filters ?? {};
+    setSearchTerm(filters.q ?? '');
+    setDebouncedSearch(filters.q ?? '');
+    setDateFrom(filters.from ?? '');
+    setDateTo(filters.to ?? '');
+    setTagFilter(filters.tags ?? []);
+    setTagMode(filters.tagMode ?? 'any');
+    setSort(parseSort(filters.sort ?? null));
+    setColumns(filters.columns ?? ALL_DIRECTORY_COLUMNS);
+    setActiveViewId(view?.id ?? null);
+  };
+
+  const toggleColumn = (column: DirectoryColumn, visible: boolean) => {
+    setColumns(prev => ALL_DIRECTORY_COLUMNS.filter(key => (key === column ? visible : prev.includes(key))));
+  };
+
+  // A deleted tag can no longer be filtered by
+  const handleTagsChange = (next: Tag[]) => {
+    setTags(next);
+    setTagFilter(prev => prev.filter(id => next.some(tag => tag.id === id)));
+  };
+
+  const highlight = (ids: string[]) => {
+    setHighlightedIds(prev => [...prev, ...ids]);
+    setTimeout(() => {
+      setHighlightedIds(prev => prev.filter(id => !ids.includes(id)));
+    }, HIGHLIGHT_MS);
+  };
+
+  const removeEntries = (ids: string[]) => {
+    const removed = entries.filter(entry => ids.includes(entry.id)).length;
+    if (removed === 0) return;
+    setEntries(prev => prev.filter(entry => !ids.includes(entry.id)));
+    setTotalResults(prev => prev - removed);
+  };
+
+  // Entries that no longer exist (e.g. purged meanwhile) are skipped
+  const fetchChangedEntries = async (ids: string[]) => {
+    const results = await Promise.allSettled(ids.map(id => peopleBoardApi.getEntry(accessToken, id)));
+    return results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  };
+
+  const handleEntryChange = async (change: EntryChange) => {
+    fetchStats();
 
-    setFilteredEntries(filtered);
-  }, [entries, searchTerm, dateFrom, dateTo]);
+    if (change.type === 'delete') {
+      removeEntries(change.ids);
+      return;
+    }
+
+    if (change.type === 'insert') {
+      // Arrivals can only be placed on an unfiltered first page sorted newest
+      // first; anywhere else they wait for a refresh
+      const newestFirst = !sortParam || sortParam === '-dateAdded';
+      if (debouncedSearch || dateFrom || dateTo || tagFilter.length > 0 || page.pageIndex > 0 || !newestFirst) {
+        setPendingArrivals(prev => prev + change.ids.length);
+        return;
+      }
+      const arrived = (await fetchChangedEntries(change.ids))
+        .filter(entry => !entries.some(existing => existing.id === entry.id));
+      if (arrived.length === 0) return;
+      setEntries(prev => [...arrived, ...prev].slice(0, PAGE_SIZE));
+      setTotalResults(prev => prev + arrived.length);
+      highlight(arrived.map(entry => entry.id));
+      return;
+    }
+
+    // Updates only matter for rows on the current page
+    const visibleIds = change.ids.filter(id => entries.some(entry => entry.id === id));
+    if (visibleIds.length === 0) return;
+    const updated = await fetchChangedEntries(visibleIds);
+    removeEntries(updated.filter(entry => entry.deletedAt).map(entry => entry.id));
+    updated.filter(entry => !entry.deletedAt).forEach(replaceEntry);
+  };
+
+  // The subscription lives for the whole session, so it calls whichever
+  // handler was rendered last to see the current filters and page.
+  const entryChangeHandler = useRef(handleEntryChange);
+  entryChangeHandler.current = handleEntryChange;
+
+  useEffect(() => {
+    return subscribeToEntryChanges(change => {
+      entryChangeHandler.current(change).catch(error => {
+        console.error('Realtime entry change error:', error);
+      });
+    });
+  }, []);
+
+  const handlePageChange = (pageIndex: number) => {
+    setPagination({ ...page, pageIndex });
+  };
+
+  const handleSort = (field: SortField, multi: boolean) => {
+    setSort(prev => toggleSort(prev, field, multi));
+  };
 
   const handleReset = () => {
     setSearchTerm('');
     setDateFrom('');
     setDateTo('');
+    setTagFilter([]);
+    setTagMode('any');
+  };
+
+  const currentFilter: EntryFilter = { q: debouncedSearch, from: dateFrom, to: dateTo, tags: tagFilter, tagMode };
+
+  const openExportDialog = (format: ExportFormat, scope?: ExportScope) => {
+    setExportFormat(format);
+    setExportFromSelection(scope === 'selected');
+    setIsExportDialogOpen(true);
+  };
+
+  const resolveExportEntries = (scope: ExportScope): Promise<UserEntry[]> => {
+    const exportSelection: BatchSelection = scope === 'all'
+      ? { filter: {} }
+      : scope === 'selected'
+        ? toBatchSelection()
+        : { filter: currentFilter };
+    return peopleBoardApi.exportEntries(accessToken, exportSelection, sortParam || undefined);
+  };
+
+  const handleExport = async (scope: ExportScope, options: ExportOptions) => {
+    await exportEntries(await resolveExportEntries(scope), options);
+  };
+
+  const selectedCount = selection.mode === 'ids'
+    ? Object.keys(selection.entries).length
+    : totalResults - selection.excludeIds.length;
+
+  const isSelected = (id: string) =>
+    selection.mode === 'ids' ? id in selection.entries : !selection.excludeIds.includes(id);
+
+  const pageSelectedCount = entries.filter(entry => isSelected(entry.id)).length;
+  const isPageSelected = entries.length > 0 && pageSelectedCount === entries.length;
+
+  const toggleEntrySelection = (entry: UserEntry, checked: boolean) => {
+    setSelection(prev => {
+      if (prev.mode === 'ids') {
+        const entries = { ...prev.entries };
+        if (checked) {
+          entries[entry.id] = entry;
+        } else {
+          delete entries[entry.id];
+        }
+        return { mode: 'ids', entries };
+      }
+      const excludeIds = prev.excludeIds.filter(id => id !== entry.id);
+      return { mode: 'filter', excludeIds: checked ? excludeIds : [...excludeIds, entry.id] };
+    });
+  };
+
+  const togglePageSelection = (checked: boolean) => {
+    entries.forEach(entry => toggleEntrySelection(entry, checked));
+  };
+
+  const toBatchSelection = (): BatchSelection =>
+    selection.mode === 'ids'
+      ? { ids: Object.keys(selection.entries) }
+      : { filter: currentFilter, excludeIds: selection.excludeIds };
+
+  const selectionLabel = selection.mode === 'filter'
+    ? `all ${selectedCount} people matching the current filters`
+    : `the ${selectedCount} selected ${selectedCount === 1 ? 'person' : 'people'}`;
+
+  const exportScopes: ExportScopeOption[] = exportFromSelection
+    ? [{ scope: 'selected', label: 'Selected people', count: selectedCount }]
+    : [
+        { scope: 'filtered', label: 'Filtered results', count: totalResults },
+        { scope: 'all', label: 'All entries', count: stats.total },
+      ];
+
+  const handleBulkDelete = async () => {
+    const { affected } = await peopleBoardApi.batchEntries(accessToken, toBatchSelection(), { action: 'delete' });
+    setSelection(EMPTY_SELECTION);
+    fetchEntries();
+    fetchStats();
+    toast.success(`${affected} ${affected === 1 ? 'person' : 'people'} moved to the trash`);
+  };
+
+  const handleBulkReassign = async (userId: string) => {
+    const { affected } = await peopleBoardApi.batchEntries(accessToken, toBatchSelection(), {
+      action: 'reassign',
+      userId,
+    });
+    setSelection(EMPTY_SELECTION);
+    fetchEntries();
+    toast.success(`${affected} ${affected === 1 ? 'person' : 'people'} reassigned`);
   };
 
-  const exportCSV = () => {
-    const headers = ['Name', 'Mobile No', 'Address', 'Date Added'];
-    const csvData = [
-      headers.join(','),
-      ...filteredEntries.map(entry =>
-        [
-          `"${entry.name}"`,
-          entry.mobile,
-          `"${entry.address.replace(/"/g, '""')}"`,
-          new Date(entry.dateAdded).toLocaleDateString(),
-        ].join(',')
-      )
-    ].join('\n');
-
-    const blob = new Blob([csvData], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `people-board-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
-    
-    toast.success('CSV exported successfully!');
+  // Only people whose tags actually change are counted
+  const handleBulkTag = async (action: 'tag' | 'untag', tagIds: string[]) => {
+    const { affected } = await peopleBoardApi.batchEntries(accessToken, toBatchSelection(), { action, tagIds });
+    setSelection(EMPTY_SELECTION);
+    fetchEntries();
+    toast.success(`${action === 'tag' ? 'Tagged' : 'Untagged'} ${affected} ${affected === 1 ? 'person' : 'people'}`);
   };
 
   const handleEditEntry = (entry: UserEntry) => {
@@ -146,30 +523,61 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
     setIsEditDialogOpen(true);
   };
 
-  const handleDeleteEntry = async (entry: UserEntry) => {
-    if (!confirm(`Are you sure you want to delete ${entry.name}'s information?`)) {
-      return;
+  const handleShowHistory = (entry: UserEntry) => {
+    setAuditEntryId(entry.id);
+    setActiveTab('audit');
+  };
+
+  const replaceEntry = (updatedEntry: UserEntry) => {
+    setEntries(prev => prev.map(entry => 
+      entry.id === updatedEntry.id ? updatedEntry : entry
+    ));
+  };
+
+  const undoDelete = async (entry: UserEntry) => {
+    try {
+      await peopleBoardApi.restoreEntry(accessToken, entry.id);
+      fetchEntries();
+      fetchStats();
+      toast.success(`${entry.name} restored`);
+    } catch (error) {
+      console.error('Undo delete error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore person information');
     }
+  };
 
+  const undoEdit = async (previousEntry: UserEntry, updatedEntry: UserEntry) => {
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-f328fde2/user-entries/${entry.id}`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          },
-        }
-      );
+      // Fails with a conflict if someone else edited the entry in the meantime
+      const restored = await peopleBoardApi.updateEntry(accessToken, previousEntry.id, {
+        name: previousEntry.name,
+        mobile: previousEntry.mobile,
+        address: previousEntry.address,
+        addressParts: previousEntry.addressParts,
+        customFields: previousEntry.customFields ?? {},
+        tags: previousEntry.tags ?? [],
+      }, updatedEntry.dateModified ?? null);
+      replaceEntry(restored);
+      toast.success('Changes undone');
+    } catch (error) {
+      console.error('Undo edit error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to undo changes');
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete entry');
-      }
+  // Deleting only moves the entry to the trash, so no confirmation is needed;
+  // the toast offers an Undo instead.
+  const handleDeleteEntry = async (entry: UserEntry) => {
+    try {
+      await peopleBoardApi.deleteEntry(accessToken, entry.id);
 
-      // Remove from local state
-      setEntries(prev => prev.filter(e => e.id !== entry.id));
-      toast.success('Person information deleted successfully!');
+      // Reload the page so the next entry moves up into the gap
+      fetchEntries();
+      fetchStats();
+      toast.success('Person information moved to the trash', {
+        duration: UNDO_WINDOW_MS,
+        action: { label: 'Undo', onClick: () => undoDelete(entry) },
+      });
     } catch (error) {
       console.error('Delete entry error:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to delete person information');
@@ -177,22 +585,21 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
   };
 
   const handleSaveEdit = (updatedEntry: UserEntry) => {
-    // Update the entry in local state
-    setEntries(prev => prev.map(entry => 
-      entry.id === updatedEntry.id ? updatedEntry : entry
-    ));
+    const previousEntry = editingEntry;
+    replaceEntry(updatedEntry);
     setEditingEntry(null);
     setIsEditDialogOpen(false);
-  };
 
-  const getRecentEntries = () => {
-    const today = new Date();
-    const sevenDaysAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-    return entries.filter(entry => new Date(entry.dateAdded) >= sevenDaysAgo).length;
+    toast.success('Person information updated successfully!', {
+      duration: UNDO_WINDOW_MS,
+      action: previousEntry
+        ? { label: 'Undo', onClick: () => undoEdit(previousEntry, updatedEntry) }
+        : undefined,
+    });
   };
 
-  const hasActiveFilters = searchTerm || dateFrom || dateTo;
-  const activeFilterCount = [searchTerm, dateFrom, dateTo].filter(Boolean).length;
+  const hasActiveFilters = searchTerm || dateFrom || dateTo || tagFilter.length > 0;
+  const activeFilterCount = [searchTerm, dateFrom, dateTo, tagFilter.length > 0].filter(Boolean).length;
 
   if (loading) {
     return (
@@ -223,7 +630,7 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
               </div>
               <Badge variant="secondary" className="bg-blue-100 text-blue-800 border-blue-200 hidden sm:inline-flex">
                 <Shield className="h-3 w-3 mr-1" />
-                Super Admin
+                {ROLE_LABELS[user.app_metadata?.role ?? 'user']}
               </Badge>
             </div>
             <Button
@@ -248,7 +655,7 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
                   <Users className="h-6 w-6 text-blue-600" />
                 </div>
                 <div>
-                  <p className="text-2xl font-semibold text-foreground">{entries.length}</p>
+                  <p className="text-2xl font-semibold text-foreground">{stats.total}</p>
                   <p className="text-sm text-muted-foreground">Total People</p>
                 </div>
               </div>
@@ -262,7 +669,7 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
                   <Clock className="h-6 w-6 text-emerald-600" />
                 </div>
                 <div>
-                  <p className="text-2xl font-semibold text-foreground">{getRecentEntries()}</p>
+                  <p className="text-2xl font-semibold text-foreground">{stats.addedThisWeek}</p>
                   <p className="text-sm text-muted-foreground">Added This Week</p>
                 </div>
               </div>
@@ -276,7 +683,7 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
                   <FileText className="h-6 w-6 text-purple-600" />
                 </div>
                 <div>
-                  <p className="text-2xl font-semibold text-foreground">{filteredEntries.length}</p>
+                  <p className="text-2xl font-semibold text-foreground">{totalResults}</p>
                   <p className="text-sm text-muted-foreground">Filtered Results</p>
                 </div>
               </div>
@@ -284,350 +691,693 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
           </Card>
         </div>
 
-        {/* Enhanced Filters Section */}
-        <div className="mb-6 space-y-4">
-          {/* Quick Search Bar */}
-          <Card className="border-0 shadow-sm">
-            <CardContent className="p-4">
-              <div className="flex flex-col sm:flex-row gap-4">
-                <div className="relative flex-1">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    type="text"
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    placeholder="Search by name, mobile, or address..."
-                    className="pl-10 h-12 bg-background border-border/50 focus:border-ring/50 focus:ring-2 focus:ring-ring/20"
-                  />
-                  {searchTerm && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setSearchTerm('')}
-                      className="absolute right-2 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0 hover:bg-muted"
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  )}
-                </div>
-                <Button
-                  variant="outline"
-                  onClick={() => setIsFiltersOpen(!isFiltersOpen)}
-                  className="h-12 px-4 border-border/50 hover:bg-muted/50"
-                >
-                  <Filter className="h-4 w-4 mr-2" />
-                  Advanced Filters
-                  {activeFilterCount > 0 && (
-                    <Badge variant="secondary" className="ml-2 h-5 px-2 text-xs bg-blue-100 text-blue-800">
-                      {activeFilterCount}
-                    </Badge>
-                  )}
-                  {isFiltersOpen ? (
-                    <ChevronUp className="h-4 w-4 ml-2" />
-                  ) : (
-                    <ChevronDown className="h-4 w-4 ml-2" />
-                  )}
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as DashboardTab)} className="gap-6">
+          <TabsList>
+            <TabsTrigger value="people" className="px-4">
+              <Users className="h-4 w-4" />
+              People
+            </TabsTrigger>
+            {canDelete && (
+              <TabsTrigger value="duplicates" className="px-4">
+                <CopyCheck className="h-4 w-4" />
+                Duplicates
+              </TabsTrigger>
+            )}
+            <TabsTrigger value="map" className="px-4">
+              <MapPin className="h-4 w-4" />
+              Map
+            </TabsTrigger>
+            {canDelete && (
+              <TabsTrigger value="trash" className="px-4">
+                <Trash2 className="h-4 w-4" />
+                Trash
+                {stats.trashed > 0 && (
+                  <Badge variant="secondary" className="ml-1 h-5 px-2 text-xs">
+                    {stats.trashed}
+                  </Badge>
+                )}
+              </TabsTrigger>
+            )}
+            {canManageBoard && (
+              <>
+                <TabsTrigger value="audit" className="px-4">
+                  <History className="h-4 w-4" />
+                  Audit Log
+                </TabsTrigger>
+                <TabsTrigger value="tags" className="px-4">
+                  <Tags className="h-4 w-4" />
+                  Tags
+                </TabsTrigger>
+                <TabsTrigger value="fields" className="px-4">
+                  <SlidersHorizontal className="h-4 w-4" />
+                  Fields
+                </TabsTrigger>
+              </>
+            )}
+            {canManageUsers && (
+              <TabsTrigger value="users" className="px-4">
+                <UserCog className="h-4 w-4" />
+                Users
+              </TabsTrigger>
+            )}
+          </TabsList>
 
-          {/* Advanced Filters - Collapsible */}
-          <Collapsible open={isFiltersOpen} onOpenChange={setIsFiltersOpen}>
-            <CollapsibleContent>
-              <Card className="border-0 shadow-sm bg-gradient-to-r from-slate-50 to-gray-50">
-                <CardContent className="p-6 space-y-6">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Calendar className="h-5 w-5 text-muted-foreground" />
-                      <h3 className="font-medium text-foreground">Date Range Filter</h3>
-                    </div>
-                    {(dateFrom || dateTo) && (
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        onClick={() => {
-                          setDateFrom('');
-                          setDateTo('');
-                        }}
-                        className="h-8 px-3 text-muted-foreground hover:text-foreground"
-                      >
-                        <X className="h-4 w-4 mr-1" />
-                        Clear Dates
-                      </Button>
-                    )}
-                  </div>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium text-foreground flex items-center gap-2">
-                        <Calendar className="h-4 w-4" />
-                        From Date
-                      </label>
-                      <Input
-                        type="date"
-                        value={dateFrom}
-                        onChange={(e) => setDateFrom(e.target.value)}
-                        className="h-12 bg-background border-border/50 focus:border-ring/50 focus:ring-2 focus:ring-ring/20"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium text-foreground flex items-center gap-2">
-                        <Calendar className="h-4 w-4" />
-                        To Date
-                      </label>
+          <TabsContent value="people">
+            {/* Enhanced Filters Section */}
+            <div className="mb-6 space-y-4">
+              {/* Quick Search Bar */}
+              <Card className="border-0 shadow-sm">
+                <CardContent className="p-4">
+                  <div className="flex flex-col sm:flex-row gap-4">
+                    <div className="relative flex-1">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                       <Input
-                        type="date"
-                        value={dateTo}
-                        onChange={(e) => setDateTo(e.target.value)}
-                        className="h-12 bg-background border-border/50 focus:border-ring/50 focus:ring-2 focus:ring-ring/20"
+                        type="text"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        placeholder="Search by name, mobile, or address..."
+                        className="pl-10 h-12 bg-background border-border/50 focus:border-ring/50 focus:ring-2 focus:ring-ring/20"
                       />
+                      {searchTerm && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSearchTerm('')}
+                          className="absolute right-2 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0 hover:bg-muted"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
-                  </div>
-
-                  {/* Filter Actions */}
-                  <div className="flex justify-end gap-3 pt-4 border-t border-border/50">
-                    <Button 
-                      variant="outline" 
-                      onClick={handleReset} 
-                      className="h-10 px-6"
-                      disabled={!hasActiveFilters}
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsFiltersOpen(!isFiltersOpen)}
+                      className="h-12 px-4 border-border/50 hover:bg-muted/50"
                     >
-                      <RotateCcw className="h-4 w-4 mr-2" />
-                      Reset All
+                      <Filter className="h-4 w-4 mr-2" />
+                      Advanced Filters
+                      {activeFilterCount > 0 && (
+                        <Badge variant="secondary" className="ml-2 h-5 px-2 text-xs bg-blue-100 text-blue-800">
+                          {activeFilterCount}
+                        </Badge>
+                      )}
+                      {isFiltersOpen ? (
+                        <ChevronUp className="h-4 w-4 ml-2" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4 ml-2" />
+                      )}
                     </Button>
                   </div>
                 </CardContent>
               </Card>
-            </CollapsibleContent>
-          </Collapsible>
-
-          {/* Active Filters Display */}
-          {hasActiveFilters && (
-            <div className="flex flex-wrap gap-2">
-              {searchTerm && (
-                <Badge variant="secondary" className="bg-blue-50 text-blue-700 border-blue-200">
-                  Search: &quot;{searchTerm}&quot;
-                  <button
-                    onClick={() => setSearchTerm('')}
-                    className="ml-2 hover:bg-blue-200 rounded-full p-0.5"
-                  >
-                    <X className="h-3 w-3" />
-                  </button>
-                </Badge>
-              )}
-              {dateFrom && (
-                <Badge variant="secondary" className="bg-green-50 text-green-700 border-green-200">
-                  From: {new Date(dateFrom).toLocaleDateString()}
-                  <button
-                    onClick={() => setDateFrom('')}
-                    className="ml-2 hover:bg-green-200 rounded-full p-0.5"
-                  >
-                    <X className="h-3 w-3" />
-                  </button>
-                </Badge>
-              )}
-              {dateTo && (
-                <Badge variant="secondary" className="bg-green-50 text-green-700 border-green-200">
-                  To: {new Date(dateTo).toLocaleDateString()}
-                  <button
-                    onClick={() => setDateTo('')}
-                    className="ml-2 hover:bg-green-200 rounded-full p-0.5"
-                  >
-                    <X className="h-3 w-3" />
-                  </button>
-                </Badge>
-              )}
-            </div>
-          )}
-        </div>
 
-        {/* Results Section with Export Button */}
-        <Card className="border-0 shadow-sm">
-          <CardHeader>
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-              <div className="flex items-center gap-3">
-                <CardTitle className="text-lg">People Directory</CardTitle>
-                <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
-                  {filteredEntries.length} result{filteredEntries.length !== 1 ? 's' : ''}
-                </Badge>
-              </div>
-              
-              {/* Export Button - Prominent Position */}
-              <div className="flex items-center gap-3">
-                <Button 
-                  onClick={exportCSV} 
-                  className="h-10 px-6 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 shadow-sm"
-                  disabled={filteredEntries.length === 0}
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  Export CSV
-                  {filteredEntries.length > 0 && (
-                    <Badge variant="secondary" className="ml-2 bg-white/20 text-white border-white/30">
-                      {filteredEntries.length}
+              {/* Advanced Filters - Collapsible */}
+              <Collapsible open={isFiltersOpen} onOpenChange={setIsFiltersOpen}>
+                <CollapsibleContent>
+                  <Card className="border-0 shadow-sm bg-gradient-to-r from-slate-50 to-gray-50">
+                    <CardContent className="p-6 space-y-6">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Calendar className="h-5 w-5 text-muted-foreground" />
+                          <h3 className="font-medium text-foreground">Date Range Filter</h3>
+                        </div>
+                        {(dateFrom || dateTo) && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => {
+                              setDateFrom('');
+                              setDateTo('');
+                            }}
+                            className="h-8 px-3 text-muted-foreground hover:text-foreground"
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Clear Dates
+                          </Button>
+                        )}
+                      </div>
+                  
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium text-foreground flex items-center gap-2">
+                            <Calendar className="h-4 w-4" />
+                            From Date
+                          </label>
+                          <Input
+                            type="date"
+                            value={dateFrom}
+                            onChange={(e) => setDateFrom(e.target.value)}
+                            className="h-12 bg-background border-border/50 focus:border-ring/50 focus:ring-2 focus:ring-ring/20"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium text-foreground flex items-center gap-2">
+                            <Calendar className="h-4 w-4" />
+                            To Date
+                          </label>
+                          <Input
+                            type="date"
+                            value={dateTo}
+                            onChange={(e) => setDateTo(e.target.value)}
+                            className="h-12 bg-background border-border/50 focus:border-ring/50 focus:ring-2 focus:ring-ring/20"
+                          />
+                        </div>
+                      </div>
+
+                      {tags.length > 0 && (
+                        <div className="space-y-4 pt-4 border-t border-border/50">
+                          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                            <div className="flex items-center gap-2">
+                              <Tags className="h-5 w-5 text-muted-foreground" />
+                              <h3 className="font-medium text-foreground">Tag Filter</h3>
+                            </div>
+                            <Select value={tagMode} onValueChange={(value) => setTagMode(value as TagMode)}>
+                              <SelectTrigger className="w-full sm:w-48 bg-background">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="any">Match any tag</SelectItem>
+                                <SelectItem value="all">Match all tags</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <TagToggleList tags={tags} selected={tagFilter} onChange={setTagFilter} />
+                        </div>
+                      )}
+
+                      {/* Filter Actions */}
+                      <div className="flex justify-end gap-3 pt-4 border-t border-border/50">
+                        <Button 
+                          variant="outline" 
+                          onClick={handleReset} 
+                          className="h-10 px-6"
+                          disabled={!hasActiveFilters}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Reset All
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </CollapsibleContent>
+              </Collapsible>
+
+              {/* Active Filters Display */}
+              {hasActiveFilters && (
+                <div className="flex flex-wrap gap-2">
+                  {searchTerm && (
+                    <Badge variant="secondary" className="bg-blue-50 text-blue-700 border-blue-200">
+                      Search: &quot;{searchTerm}&quot;
+                      <button
+                        onClick={() => setSearchTerm('')}
+                        className="ml-2 hover:bg-blue-200 rounded-full p-0.5"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
                     </Badge>
                   )}
-                </Button>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {filteredEntries.length === 0 ? (
-              <div className="flex flex-col items-center justify-center py-12">
-                <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
-                  <Users className="h-8 w-8 text-muted-foreground" />
+                  {dateFrom && (
+                    <Badge variant="secondary" className="bg-green-50 text-green-700 border-green-200">
+                      From: {new Date(dateFrom).toLocaleDateString()}
+                      <button
+                        onClick={() => setDateFrom('')}
+                        className="ml-2 hover:bg-green-200 rounded-full p-0.5"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  )}
+                  {dateTo && (
+                    <Badge variant="secondary" className="bg-green-50 text-green-700 border-green-200">
+                      To: {new Date(dateTo).toLocaleDateString()}
+                      <button
+                        onClick={() => setDateTo('')}
+                        className="ml-2 hover:bg-green-200 rounded-full p-0.5"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  )}
+                  {tags.filter(tag => tagFilter.includes(tag.id)).map(tag => (
+                    <Badge key={tag.id} variant="secondary" className={TAG_COLOR_CLASSES[tag.color]}>
+                      {tagFilter.length > 1 && tagMode === 'all' ? 'With tag' : 'Tag'}: {tag.name}
+                      <button
+                        onClick={() => setTagFilter(prev => prev.filter(id => id !== tag.id))}
+                        className="ml-2 hover:bg-black/10 rounded-full p-0.5"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
                 </div>
-                <h3 className="text-lg font-medium text-foreground mb-2">
-                  {entries.length === 0 ? 'No People Found' : 'No Matching Results'}
-                </h3>
-                <p className="text-muted-foreground text-center max-w-md">
-                  {entries.length === 0 
-                    ? 'Start by adding people to your board to see them here.'
-                    : 'Try adjusting your search criteria or clearing the filters to see more results.'
-                  }
-                </p>
-                {hasActiveFilters ? (
-                  <Button 
-                    variant="outline" 
-                    onClick={handleReset}
-                    className="mt-4"
-                  >
-                    Clear All Filters
+              )}
+            </div>
+
+            {/* Realtime arrivals hidden by the current view */}
+            {pendingArrivals > 0 && (
+              <div className="mb-4 flex items-center justify-between gap-3 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-900">
+                <span>
+                  {pendingArrivals} new {pendingArrivals === 1 ? 'person' : 'people'} added since this view was loaded
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => fetchEntries()}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Refresh
                   </Button>
-                ) : null}
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setPendingArrivals(0)} aria-label="Dismiss">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-            ) : (
-              <>
-                {/* Desktop Table */}
-                <div className="hidden md:block overflow-hidden rounded-lg border border-border/50">
-                  <Table>
-                    <TableHeader>
-                      <TableRow className="bg-muted/30 hover:bg-muted/30">
-                        <TableHead className="font-semibold text-foreground">Name</TableHead>
-                        <TableHead className="font-semibold text-foreground">Mobile Number</TableHead>
-                        <TableHead className="font-semibold text-foreground">Address</TableHead>
-                        <TableHead className="font-semibold text-foreground">Date Added</TableHead>
-                        <TableHead className="font-semibold text-foreground w-20">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {filteredEntries.map((entry) => (
-                        <TableRow 
-                          key={entry.id} 
-                          className="hover:bg-muted/20 transition-colors"
-                        >
-                          <TableCell className="font-medium">
-                            <div className="flex items-center gap-3">
-                              <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white text-sm font-medium">
-                                {entry.name.charAt(0).toUpperCase()}
-                              </div>
-                              {entry.name}
-                            </div>
-                          </TableCell>
-                          <TableCell className="text-muted-foreground">
-                            {entry.mobile}
-                          </TableCell>
-                          <TableCell className="text-muted-foreground max-w-xs">
-                            <div className="truncate" title={entry.address}>
-                              {entry.address}
-                            </div>
-                          </TableCell>
-                          <TableCell className="text-muted-foreground">
-                            {new Date(entry.dateAdded).toLocaleDateString('en-US', {
-                              month: 'short',
-                              day: 'numeric',
-                              year: 'numeric'
-                            })}
-                          </TableCell>
-                          <TableCell>
-                            <DropdownMenu>
-                              <DropdownMenuTrigger asChild>
-                                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                                  <MoreVertical className="h-4 w-4" />
-                                </Button>
-                              </DropdownMenuTrigger>
-                              <DropdownMenuContent align="end">
-                                <DropdownMenuItem onClick={() => handleEditEntry(entry)}>
-                                  <Edit className="h-4 w-4 mr-2" />
-                                  Edit
-                                </DropdownMenuItem>
-                                <DropdownMenuItem 
-                                  onClick={() => handleDeleteEntry(entry)}
-                                  className="text-destructive focus:text-destructive"
-                                >
-                                  <Trash2 className="h-4 w-4 mr-2" />
-                                  Delete
-                                </DropdownMenuItem>
-                              </DropdownMenuContent>
-                            </DropdownMenu>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
+            )}
+
+            <SavedViewsBar
+              views={savedViews}
+              pinnedIds={pinnedViewIds}
+              activeView={activeView}
+              filters={viewFilters}
+              currentUserId={user.id}
+              accessToken={accessToken}
+              onApply={applyView}
+              onViewsChange={handleSavedViewsChange}
+            />
+
+            {/* Results Section with Export Button */}
+            <Card className="border-0 shadow-sm">
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <CardTitle className="text-lg">People Directory</CardTitle>
+                    <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+                      {totalResults} result{totalResults !== 1 ? 's' : ''}
+                    </Badge>
+                  </div>
+              
+                  {/* Export Button - Prominent Position */}
+                  <div className="flex items-center gap-3">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" className="h-10 px-4">
+                          <Columns3 className="h-4 w-4 mr-2" />
+                          Columns
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {DIRECTORY_COLUMNS.map(({ key, label }) => (
+                          <DropdownMenuCheckboxItem
+                            key={key}
+                            checked={columns.includes(key)}
+                            onCheckedChange={(checked) => toggleColumn(key, checked === true)}
+                            onSelect={(e) => e.preventDefault()}
+                          >
+                            {label}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    {canImport && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setIsImportDialogOpen(true)}
+                        className="h-10 px-4"
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import CSV
+                      </Button>
+                    )}
+                    {canExport && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button 
+                            className="h-10 px-6 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 shadow-sm"
+                            disabled={stats.total === 0}
+                          >
+                            <Download className="h-4 w-4 mr-2" />
+                            Export
+                            <ChevronDown className="h-4 w-4 ml-2" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {EXPORT_FORMATS.map(({ format, label }) => (
+                            <DropdownMenuItem key={format} onClick={() => openExportDialog(format)}>
+                              <FileText className="h-4 w-4 mr-2" />
+                              {label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
                 </div>
+              </CardHeader>
+              <CardContent>
+                {entries.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-12">
+                    <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                      <Users className="h-8 w-8 text-muted-foreground" />
+                    </div>
+                    <h3 className="text-lg font-medium text-foreground mb-2">
+                      {stats.total === 0 ? 'No People Found' : 'No Matching Results'}
+                    </h3>
+                    <p className="text-muted-foreground text-center max-w-md">
+                      {stats.total === 0 
+                        ? 'Start by adding people to your board to see them here.'
+                        : 'Try adjusting your search criteria or clearing the filters to see more results.'
+                      }
+                    </p>
+                    {hasActiveFilters ? (
+                      <Button 
+                        variant="outline" 
+                        onClick={handleReset}
+                        className="mt-4"
+                      >
+                        Clear All Filters
+                      </Button>
+                    ) : null}
+                  </div>
+                ) : (
+                  <>
+                    {selectedCount > 0 && (
+                      <BulkActionsBar
+                        accessToken={accessToken}
+                        selectedCount={selectedCount}
+                        selectionLabel={selectionLabel}
+                        onExport={canExport ? () => openExportDialog('csv', 'selected') : undefined}
+                        onDelete={canDelete ? handleBulkDelete : undefined}
+                        onReassign={canEdit ? handleBulkReassign : undefined}
+                        tags={tags}
+                        onTag={canEdit ? handleBulkTag : undefined}
+                        onClear={() => setSelection(EMPTY_SELECTION)}
+                      />
+                    )}
 
-                {/* Mobile Cards */}
-                <div className="md:hidden space-y-4">
-                  {filteredEntries.map((entry) => (
-                    <Card key={`${entry.id}-mobile`} className="border-0 shadow-sm bg-card">
-                      <CardContent className="p-4">
-                        <div className="flex items-start gap-3">
-                          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-medium flex-shrink-0">
-                            {entry.name.charAt(0).toUpperCase()}
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-start justify-between">
-                              <div className="flex-1">
-                                <h3 className="font-medium text-foreground mb-1">
+                    {/* Select-all-in-filter prompt */}
+                    {isPageSelected && totalResults > entries.length && (
+                      <div className="mb-4 text-sm text-center text-muted-foreground">
+                        {selection.mode === 'filter' && selection.excludeIds.length === 0 ? (
+                          <>
+                            All {totalResults} matching people are selected.{' '}
+                            <button
+                              onClick={() => setSelection(EMPTY_SELECTION)}
+                              className="text-blue-600 hover:text-blue-700 font-medium"
+                            >
+                              Clear selection
+                            </button>
+                          </>
+                        ) : selection.mode === 'ids' ? (
+                          <>
+                            All {entries.length} people on this page are selected.{' '}
+                            <button
+                              onClick={() => setSelection({ mode: 'filter', excludeIds: [] })}
+                              className="text-blue-600 hover:text-blue-700 font-medium"
+                            >
+                              Select all {totalResults} matching results
+                            </button>
+                          </>
+                        ) : null}
+                      </div>
+                    )}
+
+                    {/* Desktop Table */}
+                    <div className={`hidden md:block overflow-hidden rounded-lg border border-border/50 transition-opacity ${fetching ? 'opacity-60' : ''}`}>
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="bg-muted/30 hover:bg-muted/30">
+                            {canSelect && (
+                              <TableHead className="w-10">
+                                <Checkbox
+                                  checked={isPageSelected ? true : pageSelectedCount > 0 ? 'indeterminate' : false}
+                                  onCheckedChange={(checked) => togglePageSelection(checked === true)}
+                                  aria-label="Select all on this page"
+                                />
+                              </TableHead>
+                            )}
+                            <SortableTableHead field="name" sort={sort} onSort={handleSort}>Name</SortableTableHead>
+                            {columns.includes('mobile') && (
+                              <SortableTableHead field="mobile" sort={sort} onSort={handleSort}>Mobile Number</SortableTableHead>
+                            )}
+                            {columns.includes('address') && (
+                              <SortableTableHead field="address" sort={sort} onSort={handleSort}>Address</SortableTableHead>
+                            )}
+                            {columns.includes('tags') && (
+                              <TableHead className="font-semibold text-foreground">Tags</TableHead>
+                            )}
+                            {columns.includes('dateAdded') && (
+                              <SortableTableHead field="dateAdded" sort={sort} onSort={handleSort}>Date Added</SortableTableHead>
+                            )}
+                            {hasRowActions && (
+                              <TableHead className="font-semibold text-foreground w-20">Actions</TableHead>
+                            )}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {entries.map((entry) => (
+                            <TableRow 
+                              key={entry.id} 
+                              className={`hover:bg-muted/20 transition-colors duration-1000 ${highlightedIds.includes(entry.id) ? 'bg-blue-50' : ''}`}
+                              data-state={isSelected(entry.id) ? 'selected' : undefined}
+                            >
+                              {canSelect && (
+                                <TableCell>
+                                  <Checkbox
+                                    checked={isSelected(entry.id)}
+                                    onCheckedChange={(checked) => toggleEntrySelection(entry, checked === true)}
+                                    aria-label={`Select ${entry.name}`}
+                                  />
+                                </TableCell>
+                              )}
+                              <TableCell className="font-medium">
+                                <div className="flex items-center gap-3">
+                                  <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white text-sm font-medium">
+                                    {entry.name.charAt(0).toUpperCase()}
+                                  </div>
                                   {entry.name}
-                                </h3>
-                                <p className="text-sm text-muted-foreground mb-2">
-                                  {entry.mobile}
-                                </p>
-                                <p className="text-sm text-muted-foreground mb-2 break-words">
-                                  {entry.address}
-                                </p>
-                                <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                  <Calendar className="h-3 w-3" />
+                                </div>
+                              </TableCell>
+                              {columns.includes('mobile') && (
+                                <TableCell className="text-muted-foreground">
+                                  {formatPhone(entry.mobile)}
+                                </TableCell>
+                              )}
+                              {columns.includes('address') && (
+                                <TableCell className="text-muted-foreground max-w-xs">
+                                  <div className="truncate" title={entry.address}>
+                                    {entry.address}
+                                  </div>
+                                </TableCell>
+                              )}
+                              {columns.includes('tags') && (
+                                <TableCell className="max-w-xs">
+                                  <TagBadges ids={entry.tags} tags={tags} />
+                                </TableCell>
+                              )}
+                              {columns.includes('dateAdded') && (
+                                <TableCell className="text-muted-foreground">
                                   {new Date(entry.dateAdded).toLocaleDateString('en-US', {
                                     month: 'short',
                                     day: 'numeric',
                                     year: 'numeric'
                                   })}
+                                </TableCell>
+                              )}
+                              {hasRowActions && (
+                                <TableCell>
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                                        <MoreVertical className="h-4 w-4" />
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                      {canEdit && (
+                                        <DropdownMenuItem onClick={() => handleEditEntry(entry)}>
+                                          <Edit className="h-4 w-4 mr-2" />
+                                          Edit
+                                        </DropdownMenuItem>
+                                      )}
+                                      {canManageBoard && (
+                                        <DropdownMenuItem onClick={() => handleShowHistory(entry)}>
+                                          <History className="h-4 w-4 mr-2" />
+                                          Audit History
+                                        </DropdownMenuItem>
+                                      )}
+                                      {canDelete && (
+                                        <DropdownMenuItem 
+                                          onClick={() => handleDeleteEntry(entry)}
+                                          className="text-destructive focus:text-destructive"
+                                        >
+                                          <Trash2 className="h-4 w-4 mr-2" />
+                                          Delete
+                                        </DropdownMenuItem>
+                                      )}
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                </TableCell>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+
+                    {/* Mobile Cards */}
+                    <div className={`md:hidden space-y-4 transition-opacity ${fetching ? 'opacity-60' : ''}`}>
+                      {entries.map((entry) => (
+                        <Card
+                          key={`${entry.id}-mobile`}
+                          className={`border-0 shadow-sm transition-colors duration-1000 ${highlightedIds.includes(entry.id) ? 'bg-blue-50' : 'bg-card'}`}
+                        >
+                          <CardContent className="p-4">
+                            <div className="flex items-start gap-3">
+                              {canSelect && (
+                                <Checkbox
+                                  checked={isSelected(entry.id)}
+                                  onCheckedChange={(checked) => toggleEntrySelection(entry, checked === true)}
+                                  aria-label={`Select ${entry.name}`}
+                                  className="mt-3"
+                                />
+                              )}
+                              <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-medium flex-shrink-0">
+                                {entry.name.charAt(0).toUpperCase()}
+                              </div>
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-start justify-between">
+                                  <div className="flex-1">
+                                    <h3 className="font-medium text-foreground mb-1">
+                                      {entry.name}
+                                    </h3>
+                                    {columns.includes('mobile') && (
+                                      <p className="text-sm text-muted-foreground mb-2">
+                                        {formatPhone(entry.mobile)}
+                                      </p>
+                                    )}
+                                    {columns.includes('address') && (
+                                      <p className="text-sm text-muted-foreground mb-2 break-words">
+                                        {entry.address}
+                                      </p>
+                                    )}
+                                    {columns.includes('tags') && (
+                                      <TagBadges ids={entry.tags} tags={tags} className="mb-2" />
+                                    )}
+                                    {columns.includes('dateAdded') && (
+                                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                        <Calendar className="h-3 w-3" />
+                                        {new Date(entry.dateAdded).toLocaleDateString('en-US', {
+                                          month: 'short',
+                                          day: 'numeric',
+                                          year: 'numeric'
+                                        })}
+                                      </div>
+                                    )}
+                                  </div>
+                                  {hasRowActions && (
+                                    <DropdownMenu>
+                                      <DropdownMenuTrigger asChild>
+                                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                                          <MoreVertical className="h-4 w-4" />
+                                        </Button>
+                                      </DropdownMenuTrigger>
+                                      <DropdownMenuContent align="end">
+                                        {canEdit && (
+                                          <DropdownMenuItem onClick={() => handleEditEntry(entry)}>
+                                            <Edit className="h-4 w-4 mr-2" />
+                                            Edit
+                                          </DropdownMenuItem>
+                                        )}
+                                        {canManageBoard && (
+                                          <DropdownMenuItem onClick={() => handleShowHistory(entry)}>
+                                            <History className="h-4 w-4 mr-2" />
+                                            Audit History
+                                          </DropdownMenuItem>
+                                        )}
+                                        {canDelete && (
+                                          <DropdownMenuItem 
+                                            onClick={() => handleDeleteEntry(entry)}
+                                            className="text-destructive focus:text-destructive"
+                                          >
+                                            <Trash2 className="h-4 w-4 mr-2" />
+                                            Delete
+                                          </DropdownMenuItem>
+                                        )}
+                                      </DropdownMenuContent>
+                                    </DropdownMenu>
+                                  )}
                                 </div>
                               </div>
-                              <DropdownMenu>
-                                <DropdownMenuTrigger asChild>
-                                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                                    <MoreVertical className="h-4 w-4" />
-                                  </Button>
-                                </DropdownMenuTrigger>
-                                <DropdownMenuContent align="end">
-                                  <DropdownMenuItem onClick={() => handleEditEntry(entry)}>
-                                    <Edit className="h-4 w-4 mr-2" />
-                                    Edit
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem 
-                                    onClick={() => handleDeleteEntry(entry)}
-                                    className="text-destructive focus:text-destructive"
-                                  >
-                                    <Trash2 className="h-4 w-4 mr-2" />
-                                    Delete
-                                  </DropdownMenuItem>
-                                </DropdownMenuContent>
-                              </DropdownMenu>
                             </div>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              </>
-            )}
-          </CardContent>
-        </Card>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+
+                    <EntriesPagination
+                      pageIndex={page.pageIndex}
+                      pageCount={Math.ceil(totalResults / PAGE_SIZE)}
+                      knownPages={page.cursors.length}
+                      onPageChange={handlePageChange}
+                    />
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {canDelete && (
+            <TabsContent value="duplicates">
+              <DuplicatesView
+                accessToken={accessToken}
+                customFields={customFields}
+                onChange={() => {
+                  fetchEntries();
+                  fetchStats();
+                }}
+              />
+            </TabsContent>
+          )}
+
+          <TabsContent value="map">
+            <EntryMapView accessToken={accessToken} onEditEntry={canEdit ? handleEditEntry : undefined} />
+          </TabsContent>
+
+          {canDelete && (
+            <TabsContent value="trash">
+              <TrashView
+                accessToken={accessToken}
+                retentionDays={stats.trashRetentionDays}
+                onChange={() => {
+                  fetchEntries();
+                  fetchStats();
+                }}
+              />
+            </TabsContent>
+          )}
+
+          {canManageBoard && (
+            <>
+              <TabsContent value="audit">
+                <AuditLogView
+                  accessToken={accessToken}
+                  entryId={auditEntryId}
+                  onEntryIdChange={setAuditEntryId}
+                />
+              </TabsContent>
+
+              <TabsContent value="tags">
+                <TagsView accessToken={accessToken} tags={tags} onChange={handleTagsChange} onEntriesChange={fetchEntries} />
+              </TabsContent>
+
+              <TabsContent value="fields">
+                <CustomFieldsView accessToken={accessToken} fields={customFields} onChange={setCustomFields} />
+              </TabsContent>
+            </>
+          )}
+
+          {canManageUsers && (
+            <TabsContent value="users">
+              <UsersView accessToken={accessToken} currentUserId={user.id} />
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
 
       {/* Edit Dialog */}
@@ -640,6 +1390,31 @@ export function DashboardScreen({ user, accessToken, onLogout }: DashboardScreen
         }}
         onSave={handleSaveEdit}
         accessToken={accessToken}
+        customFields={customFields}
+        tags={tags}
+      />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        isOpen={isExportDialogOpen}
+        onClose={() => setIsExportDialogOpen(false)}
+        initialFormat={exportFormat}
+        scopes={exportScopes}
+        customFields={customFields}
+        tags={tags}
+        onExport={handleExport}
+      />
+
+      {/* Import Dialog */}
+      <ImportEntriesDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+        onImported={() => {
+          fetchEntries();
+          fetchStats();
+        }}
+        accessToken={accessToken}
+        customFields={customFields}
       />
     </div>
   );
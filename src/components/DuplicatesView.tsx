@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CopyCheck, GitMerge, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { DUPLICATE_REASON_LABELS } from '@/lib/duplicates';
+import { formatPhone } from '@/lib/phone';
+import { MergeEntriesDialog } from '@/components/MergeEntriesDialog';
+import type { CustomFieldDefinition, DuplicatePair } from '@/types';
+
+interface DuplicatesViewProps {
+  accessToken: string | null;
+  customFields: CustomFieldDefinition[];
+  // Called after a merge so the caller can refresh
+  onChange: () => void;
+}
+
+const pairKey = (pair: DuplicatePair) => pair.entries.map(entry => entry.id).join(':');
+
+export function DuplicatesView({ accessToken, customFields, onChange }: DuplicatesViewProps) {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mergingPair, setMergingPair] = useState<DuplicatePair | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const fetchPairs = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPairs(await peopleBoardApi.listDuplicates(accessToken));
+    } catch (error) {
+      console.error('Fetch duplicates error:', error);
+      toast.error('Failed to load duplicates');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    const key = pairKey(pair);
+    setBusyKey(key);
+    try {
+      await peopleBoardApi.dismissDuplicate(accessToken, [pair.entries[0].id, pair.entries[1].id]);
+      setPairs(prev => prev.filter(other => pairKey(other) !== key));
+      toast.success('Marked as not duplicates');
+    } catch (error) {
+      console.error('Dismiss duplicate error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to dismiss duplicate');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleMerged = () => {
+    // A merge can resolve or change other pairs involving either entry
+    fetchPairs();
+    onChange();
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg">Possible Duplicates</CardTitle>
+          <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+            {pairs.length} {pairs.length === 1 ? 'pair' : 'pairs'}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          People who share a mobile number, or have a similar name at a similar address.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : pairs.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <CopyCheck className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">No Duplicates Found</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              Every person on the board looks unique.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {pairs.map(pair => (
+              <div key={pairKey(pair)} className="p-4 rounded-lg border border-border/50 space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {pair.reasons.map(reason => (
+                    <Badge key={reason} variant="secondary" className="bg-amber-100 text-amber-800">
+                      {DUPLICATE_REASON_LABELS[reason]}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {pair.entries.map(entry => (
+                    <div key={entry.id} className="rounded-md bg-muted/30 p-3 min-w-0">
+                      <h3 className="font-medium text-foreground">{entry.name}</h3>
+                      <p className="text-sm text-muted-foreground">{formatPhone(entry.mobile)}</p>
+                      <p className="text-sm text-muted-foreground truncate" title={entry.address}>{entry.address}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Added {new Date(entry.dateAdded).toLocaleDateString()}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDismiss(pair)}
+                    disabled={busyKey === pairKey(pair)}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Not Duplicates
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => setMergingPair(pair)}
+                    disabled={busyKey === pairKey(pair)}
+                    className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+                  >
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Merge
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <MergeEntriesDialog
+        pair={mergingPair}
+        customFields={customFields}
+        onClose={() => setMergingPair(null)}
+        onMerged={handleMerged}
+        accessToken={accessToken}
+      />
+    </Card>
+  );
+}
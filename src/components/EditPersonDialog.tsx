@@ -1,13 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Loader2, User, Phone, MapPin } from 'lucide-react';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, User, MapPin, History, Pencil, ClipboardList, Tag as TagIcon } from 'lucide-react';
 import { toast } from 'sonner';
-import { projectId } from '@/utils/supabase/info';
-import type { UserEntry } from '@/types';
+import { EntryConflictError, EntryValidationError, peopleBoardApi } from '@/lib/api';
+import { entryFormResolver, setEntryFieldErrors, type EntryFormValues, type EntryValues } from '@/lib/validation';
+import { DEFAULT_PHONE_COUNTRY, toPhoneFields } from '@/lib/phone';
+import { EMPTY_ADDRESS_PARTS, toAddressParts } from '@/lib/address';
+import { toCustomFieldFormValues } from '@/lib/customFields';
+import { PhoneInput } from '@/components/PhoneInput';
+import { AddressFields } from '@/components/AddressFields';
+import { CustomFieldInputs } from '@/components/CustomFieldInputs';
+import { TagToggleList } from '@/components/TagBadges';
+import { EntryHistory } from '@/components/EntryHistory';
+import { EntryConflictView } from '@/components/EntryConflictView';
+import type { CustomFieldDefinition, EntryVersion, Tag, UserEntry, UserEntryInput } from '@/types';
+
+type EditTab = 'details' | 'history';
 
 interface EditPersonDialogProps {
   entry: UserEntry | null;
@@ -15,6 +28,11 @@ interface EditPersonDialogProps {
   onClose: () => void;
   onSave: (updatedEntry: UserEntry) => void;
   accessToken: string | null;
+  customFields: CustomFieldDefinition[];
+  tags: Tag[];
+  // Editing the signed-in user's own entry from the entry screen: saved
+  // through /user-entries/mine, without tags or history
+  ownEntry?: boolean;
 }
 
 export function EditPersonDialog({ 
@@ -22,103 +40,75 @@ export function EditPersonDialog({
   isOpen, 
   onClose, 
   onSave, 
-  accessToken 
+  accessToken,
+  customFields,
+  tags,
+  ownEntry = false
 }: EditPersonDialogProps) {
-  const [formData, setFormData] = useState({
-    name: '',
-    mobile: '',
-    address: ''
+  const resolver = useMemo(() => entryFormResolver(customFields), [customFields]);
+  const form = useForm<EntryFormValues, unknown, EntryValues>({
+    resolver,
+    defaultValues: {
+      name: '',
+      mobile: '',
+      phoneCountry: DEFAULT_PHONE_COUNTRY,
+      addressParts: EMPTY_ADDRESS_PARTS,
+      customFields: {}
+    }
   });
+  // Tag ids; picked outside the form since they need no validation
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [activeTab, setActiveTab] = useState<EditTab>('details');
+  // Latest copy known to be on the server; updates are checked against it
+  const [baseEntry, setBaseEntry] = useState<UserEntry | null>(entry);
+  const [conflict, setConflict] = useState<{ serverEntry: UserEntry; localValues: UserEntryInput } | null>(null);
 
   useEffect(() => {
-    if (entry) {
-      setFormData({
-        name: entry.name,
-        mobile: entry.mobile,
-        address: entry.address
-      });
-      setErrors({});
-    }
-  }, [entry]);
-
-  const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.name.trim()) {
-      newErrors.name = 'Name is required';
-    } else if (formData.name.trim().length < 2) {
-      newErrors.name = 'Name must be at least 2 characters';
-    }
-
-    if (!formData.mobile.trim()) {
-      newErrors.mobile = 'Mobile number is required';
-    } else if (!/^\+?[\d\s\-\(\)]{10,}$/.test(formData.mobile.trim())) {
-      newErrors.mobile = 'Please enter a valid mobile number';
-    }
-
-    if (!formData.address.trim()) {
-      newErrors.address = 'Address is required';
-    } else if (formData.address.trim().length < 10) {
-      newErrors.address = 'Address must be at least 10 characters';
+    if (isOpen) {
+      setActiveTab('details');
     }
+  }, [isOpen]);
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  const loadForm = (source: UserEntry) => {
+    const phone = toPhoneFields(source.mobile);
+    form.reset({
+      name: source.name,
+      mobile: phone.number,
+      phoneCountry: phone.country,
+      addressParts: toAddressParts(source),
+      customFields: toCustomFieldFormValues(customFields, source.customFields)
+    });
+    setSelectedTags(source.tags ?? []);
   };
 
-  const handleSave = async () => {
-    if (!entry || !validateForm()) return;
+  useEffect(() => {
+    if (entry) {
+      loadForm(entry);
+    }
+    setBaseEntry(entry);
+    setConflict(null);
+  }, [entry]);
 
+  const submit = async (values: UserEntryInput, base: UserEntry) => {
     setLoading(true);
     try {
-      console.log('Updating entry:', entry.id, 'with data:', {
-        name: formData.name.trim(),
-        mobile: formData.mobile.trim(),
-        address: formData.address.trim(),
-      });
-
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-f328fde2/user-entries/${entry.id}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify({
-            name: formData.name.trim(),
-            mobile: formData.mobile.trim(),
-            address: formData.address.trim(),
-          }),
-        }
-      );
-
-      console.log('Update response status:', response.status);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('Update response error:', errorData);
-        throw new Error(errorData.error || `HTTP ${response.status}: Failed to update entry`);
-      }
-
-      const result = await response.json();
-      console.log('Update result:', result);
-      
-      // Update the entry with the saved data
-      const updatedEntry: UserEntry = {
-        ...entry,
-        name: formData.name.trim(),
-        mobile: formData.mobile.trim(),
-        address: formData.address.trim(),
-        dateModified: result.entry?.dateModified || new Date().toISOString(),
-      };
+      const update = ownEntry ? peopleBoardApi.updateMyEntry : peopleBoardApi.updateEntry;
+      const updatedEntry = await update(accessToken, base.id, values, base.dateModified ?? null);
 
+      // The caller reports success so it can offer to undo the change
       onSave(updatedEntry);
-      toast.success('Person information updated successfully!');
       onClose();
     } catch (error) {
+      if (error instanceof EntryConflictError) {
+        setConflict({ serverEntry: error.entry, localValues: values });
+        return;
+      }
+      if (error instanceof EntryValidationError) {
+        setActiveTab('details');
+        setEntryFieldErrors(form.setError, error.fieldErrors);
+        return;
+      }
       console.error('Update entry error:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to update person information');
     } finally {
@@ -126,17 +116,48 @@ export function EditPersonDialog({
     }
   };
 
-  const handleInputChange = (field: string, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-    // Clear error when user starts typing
-    if (errors[field]) {
-      setErrors(prev => ({ ...prev, [field]: '' }));
-    }
+  // `values` have passed the shared entry schema, so the mobile is in E.164
+  const handleSave = form.handleSubmit(async (values) => {
+    if (!baseEntry) return;
+
+    await submit(ownEntry ? values : { ...values, tags: selectedTags }, baseEntry);
+  });
+
+  const handleRestoreVersion = async (version: EntryVersion) => {
+    if (!baseEntry) return;
+
+    await submit({
+      name: version.entry.name,
+      mobile: version.entry.mobile,
+      address: version.entry.address,
+      addressParts: version.entry.addressParts,
+      customFields: version.entry.customFields,
+      tags: version.entry.tags ?? [],
+    }, baseEntry);
+  };
+
+  // Overwriting or merging is checked against the copy shown in the conflict view
+  const handleResolveConflict = async (values: UserEntryInput) => {
+    if (!conflict) return;
+
+    setBaseEntry(conflict.serverEntry);
+    setConflict(null);
+    await submit(values, conflict.serverEntry);
+  };
+
+  const handleDiscardEdits = () => {
+    if (!conflict) return;
+
+    const { serverEntry } = conflict;
+    setBaseEntry(serverEntry);
+    loadForm(serverEntry);
+    setConflict(null);
+    setActiveTab('details');
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md mx-auto">
+      <DialogContent className="max-w-lg mx-auto max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white text-sm font-medium">
@@ -149,98 +170,155 @@ export function EditPersonDialog({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4 py-4">
-          {/* Name Field */}
-          <div className="space-y-2">
-            <Label htmlFor="edit-name" className="text-sm font-medium">
-              Full Name
-            </Label>
-            <div className="relative">
-              <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                id="edit-name"
-                type="text"
-                value={formData.name}
-                onChange={(e) => handleInputChange('name', e.target.value)}
-                placeholder="Enter full name"
-                className={`pl-10 h-11 ${errors.name ? 'border-destructive focus:border-destructive' : ''}`}
-                disabled={loading}
-              />
-            </div>
-            {errors.name && (
-              <p className="text-sm text-destructive">{errors.name}</p>
-            )}
-          </div>
-
-          {/* Mobile Field */}
-          <div className="space-y-2">
-            <Label htmlFor="edit-mobile" className="text-sm font-medium">
-              Mobile Number
-            </Label>
-            <div className="relative">
-              <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                id="edit-mobile"
-                type="tel"
-                value={formData.mobile}
-                onChange={(e) => handleInputChange('mobile', e.target.value)}
-                placeholder="Enter mobile number"
-                className={`pl-10 h-11 ${errors.mobile ? 'border-destructive focus:border-destructive' : ''}`}
-                disabled={loading}
-              />
-            </div>
-            {errors.mobile && (
-              <p className="text-sm text-destructive">{errors.mobile}</p>
-            )}
-          </div>
-
-          {/* Address Field */}
-          <div className="space-y-2">
-            <Label htmlFor="edit-address" className="text-sm font-medium">
-              Address
-            </Label>
-            <div className="relative">
-              <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-              <Textarea
-                id="edit-address"
-                value={formData.address}
-                onChange={(e) => handleInputChange('address', e.target.value)}
-                placeholder="Enter complete address"
-                className={`pl-10 min-h-[80px] resize-none ${errors.address ? 'border-destructive focus:border-destructive' : ''}`}
-                disabled={loading}
-              />
-            </div>
-            {errors.address && (
-              <p className="text-sm text-destructive">{errors.address}</p>
-            )}
-          </div>
-        </div>
-
-        <DialogFooter className="gap-2">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={onClose}
+        {conflict ? (
+          <EntryConflictView
+            serverEntry={conflict.serverEntry}
+            localValues={conflict.localValues}
+            customFields={customFields}
+            tags={tags}
             disabled={loading}
-          >
-            Cancel
-          </Button>
-          <Button
-            type="button"
-            onClick={handleSave}
-            disabled={loading}
-            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
-          >
-            {loading ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Saving...
-              </>
-            ) : (
-              'Save Changes'
+            onResolve={handleResolveConflict}
+            onDiscard={handleDiscardEdits}
+          />
+        ) : (
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as EditTab)}>
+            {!ownEntry && (
+              <TabsList className="w-full">
+                <TabsTrigger value="details">
+                  <Pencil className="h-4 w-4" />
+                  Details
+                </TabsTrigger>
+                <TabsTrigger value="history">
+                  <History className="h-4 w-4" />
+                  History
+                </TabsTrigger>
+              </TabsList>
             )}
-          </Button>
-        </DialogFooter>
+
+            <TabsContent value="details">
+              <Form {...form}>
+                <div className="space-y-4 py-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field, fieldState }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Full Name</FormLabel>
+                        <div className="relative">
+                          <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input
+                              type="text"
+                              {...field}
+                              placeholder="Enter full name"
+                              className={`pl-10 h-11 ${fieldState.error ? 'border-destructive focus:border-destructive' : ''}`}
+                              disabled={loading}
+                            />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="mobile"
+                    render={({ field, fieldState }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Mobile Number</FormLabel>
+                        <FormControl>
+                          <PhoneInput
+                            country={form.watch('phoneCountry')}
+                            onCountryChange={(country) => {
+                              form.setValue('phoneCountry', country);
+                              form.clearErrors('mobile');
+                            }}
+                            value={field.value}
+                            onChange={field.onChange}
+                            className={`h-11 ${fieldState.error ? 'border-destructive focus:border-destructive' : ''}`}
+                            disabled={loading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <fieldset className="space-y-3">
+                    <legend className="flex items-center gap-2 text-sm font-medium mb-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground" />
+                      Address
+                    </legend>
+                    {baseEntry && !baseEntry.addressParts && (
+                      <p className="text-xs text-muted-foreground">
+                        This address was saved as a single line. Split it into the fields below before saving.
+                      </p>
+                    )}
+                    <AddressFields control={form.control} disabled={loading} inputClassName="h-11" />
+                  </fieldset>
+
+                  {customFields.length > 0 && (
+                    <fieldset className="space-y-3">
+                      <legend className="flex items-center gap-2 text-sm font-medium mb-2">
+                        <ClipboardList className="h-4 w-4 text-muted-foreground" />
+                        More Details
+                      </legend>
+                      <CustomFieldInputs
+                        control={form.control}
+                        fields={customFields}
+                        disabled={loading}
+                        inputClassName="h-11"
+                      />
+                    </fieldset>
+                  )}
+
+                  {!ownEntry && tags.length > 0 && (
+                    <fieldset className="space-y-3">
+                      <legend className="flex items-center gap-2 text-sm font-medium mb-2">
+                        <TagIcon className="h-4 w-4 text-muted-foreground" />
+                        Tags
+                      </legend>
+                      <TagToggleList tags={tags} selected={selectedTags} onChange={setSelectedTags} disabled={loading} />
+                    </fieldset>
+                  )}
+                </div>
+              </Form>
+
+              <DialogFooter className="gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={onClose}
+                  disabled={loading}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={loading}
+                  className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Changes'
+                  )}
+                </Button>
+              </DialogFooter>
+            </TabsContent>
+
+            <TabsContent value="history" className="py-4">
+              {baseEntry && !ownEntry && (
+                <EntryHistory entry={baseEntry} accessToken={accessToken} onRestore={handleRestoreVersion} />
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
       </DialogContent>
     </Dialog>
   );
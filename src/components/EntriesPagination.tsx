@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+
+interface EntriesPaginationProps {
+  pageIndex: number;
+  pageCount: number;
+  // Pages are cursor-based, so only pages whose cursor has been seen can be
+  // jumped to directly.
+  knownPages: number;
+  onPageChange: (pageIndex: number) => void;
+}
+
+// Page links shown on each side of the current page
+const PAGE_WINDOW = 2;
+
+// The first page, then the known pages near the current one. Null marks
+// skipped pages.
+function visiblePages(pageIndex: number, knownPages: number): (number | null)[] {
+  const start = Math.max(1, pageIndex - PAGE_WINDOW);
+  const end = Math.min(knownPages - 1, pageIndex + PAGE_WINDOW);
+  const pages: (number | null)[] = [0];
+  if (start > 1) pages.push(null);
+  for (let index = start; index <= end; index++) pages.push(index);
+  return pages;
+}
+
+export function EntriesPagination({ pageIndex, pageCount, knownPages, onPageChange }: EntriesPaginationProps) {
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  const goTo = (index: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    onPageChange(index);
+  };
+
+  const canGoBack = pageIndex > 0;
+  const canGoForward = pageIndex < knownPages - 1;
+
+  return (
+    <Pagination className="mt-6">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={canGoBack ? goTo(pageIndex - 1) : (e) => e.preventDefault()}
+            aria-disabled={!canGoBack}
+            className={!canGoBack ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+        {visiblePages(pageIndex, knownPages).map((index, position) => (
+          <PaginationItem key={index ?? `gap-${position}`}>
+            {index === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={index === pageIndex} onClick={goTo(index)}>
+                {index + 1}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        {pageCount > Math.min(knownPages, pageIndex + PAGE_WINDOW + 1) && (
+          <PaginationItem>
+            <PaginationEllipsis />
+          </PaginationItem>
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={canGoForward ? goTo(pageIndex + 1) : (e) => e.preventDefault()}
+            aria-disabled={!canGoForward}
+            className={!canGoForward ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AlertTriangle } from 'lucide-react';
+import { formatPhone } from '@/lib/phone';
+import { formatCustomFieldValue } from '@/lib/customFields';
+import { entryTags } from '@/lib/tags';
+import type { CustomFieldDefinition, CustomFieldValue, Tag, UserEntry, UserEntryInput } from '@/types';
+
+// Address parts follow the choice made for the address
+type ConflictField = Exclude<keyof UserEntryInput, 'addressParts' | 'customFields' | 'tags'>;
+type ConflictSide = 'server' | 'local';
+
+const CONFLICT_FIELDS: { key: ConflictField; label: string }[] = [
+  { key: 'name', label: 'Full Name' },
+  { key: 'mobile', label: 'Mobile Number' },
+  { key: 'address', label: 'Address' },
+];
+
+// Choices are keyed by field; custom fields by `customFields.<key>`.
+// Tags are one choice, `tags`.
+type ConflictRow = { key: string; label: string; server: string; local: string };
+
+const customFieldChoice = (key: string) => `customFields.${key}`;
+
+const formatTags = (ids: string[] | undefined, tags: Tag[]) => entryTags(ids, tags).map(tag => tag.name).join(', ');
+
+interface EntryConflictViewProps {
+  serverEntry: UserEntry;
+  localValues: UserEntryInput;
+  customFields: CustomFieldDefinition[];
+  tags: Tag[];
+  disabled: boolean;
+  // Saves the chosen values over the server copy
+  onResolve: (values: UserEntryInput) => void;
+  // Drops the local edits and continues from the server copy
+  onDiscard: () => void;
+}
+
+export function EntryConflictView({
+  serverEntry,
+  localValues,
+  customFields,
+  tags,
+  disabled,
+  onResolve,
+  onDiscard,
+}: EntryConflictViewProps) {
+  // Fields not listed keep the local value
+  const [choices, setChoices] = useState<Record<string, ConflictSide>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [serverEntry]);
+
+  const side = (key: string) => choices[key] ?? 'local';
+
+  const rows: ConflictRow[] = [
+    ...CONFLICT_FIELDS.map(({ key, label }) => ({
+      key,
+      label,
+      server: key === 'mobile' ? formatPhone(serverEntry[key]) : serverEntry[key],
+      local: key === 'mobile' ? formatPhone(localValues[key]) : localValues[key],
+    })),
+    // Input without custom fields leaves them as saved, so they can't conflict
+    ...(localValues.customFields ? customFields : []).map(({ key, label }) => ({
+      key: customFieldChoice(key),
+      label,
+      server: formatCustomFieldValue(serverEntry.customFields?.[key]),
+      local: formatCustomFieldValue(localValues.customFields?.[key]),
+    })),
+    ...(localValues.tags
+      ? [{ key: 'tags', label: 'Tags', server: formatTags(serverEntry.tags, tags), local: formatTags(localValues.tags, tags) }]
+      : []),
+  ];
+  const differing = rows.filter(row => row.server !== row.local);
+
+  const mergedCustomFields = localValues.customFields && { ...localValues.customFields };
+  if (mergedCustomFields) {
+    for (const { key } of customFields) {
+      if (side(customFieldChoice(key)) !== 'server') continue;
+      const value: CustomFieldValue | undefined = serverEntry.customFields?.[key];
+      if (value === undefined) delete mergedCustomFields[key];
+      else mergedCustomFields[key] = value;
+    }
+  }
+
+  const merged: UserEntryInput = {
+    ...localValues,
+    ...Object.fromEntries(
+      CONFLICT_FIELDS.map(({ key }) => [key, side(key) === 'server' ? serverEntry[key] : localValues[key]])
+    ),
+    addressParts: side('address') === 'server' ? serverEntry.addressParts : localValues.addressParts,
+    customFields: mergedCustomFields,
+    tags: side('tags') === 'server' ? serverEntry.tags ?? [] : localValues.tags,
+  };
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="flex gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <p>
+          Someone else saved changes to this person
+          {serverEntry.dateModified && ` on ${new Date(serverEntry.dateModified).toLocaleString()}`}
+          {' '}while you were editing. Pick which value to keep for each field.
+        </p>
+      </div>
+
+      {differing.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Your edits match the saved copy, so nothing will be lost.
+        </p>
+      ) : (
+        differing.map(({ key, label, server, local }) => (
+          <div key={key} className="space-y-2">
+            <Label className="text-sm font-medium">{label}</Label>
+            <RadioGroup
+              value={side(key)}
+              onValueChange={(value) => setChoices(prev => ({ ...prev, [key]: value as ConflictSide }))}
+              className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+              disabled={disabled}
+            >
+              {([
+                ['server', 'Saved copy', server],
+                ['local', 'Your edit', local],
+              ] as const).map(([option, optionLabel, value]) => (
+                <Label
+                  key={option}
+                  htmlFor={`conflict-${key}-${option}`}
+                  className={`flex items-start gap-2 rounded-md border p-3 cursor-pointer font-normal ${
+                    side(key) === option ? 'border-primary bg-primary/5' : 'border-border/50'
+                  }`}
+                >
+                  <RadioGroupItem value={option} id={`conflict-${key}-${option}`} className="mt-0.5" />
+                  <span className="min-w-0">
+                    <span className="block text-xs text-muted-foreground">{optionLabel}</span>
+                    <span className="block break-words">{value || '—'}</span>
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+        ))
+      )}
+
+      <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2 pt-2">
+        <Button variant="outline" onClick={onDiscard} disabled={disabled}>
+          Discard My Edits
+        </Button>
+        <Button variant="outline" onClick={() => onResolve(localValues)} disabled={disabled}>
+          Overwrite With Mine
+        </Button>
+        <Button
+          onClick={() => onResolve(merged)}
+          disabled={disabled}
+          className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+        >
+          Save Merged
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { AUDIT_ACTION_STYLES, formatAuditActor } from '@/lib/audit';
+import { AuditChanges } from '@/components/AuditChanges';
+import type { EntryVersion, UserEntry } from '@/types';
+
+interface EntryHistoryProps {
+  entry: UserEntry;
+  accessToken: string | null;
+  onRestore: (version: EntryVersion) => Promise<void>;
+}
+
+// Only the editable fields can be restored
+const matchesEntry = (version: EntryVersion, entry: UserEntry) =>
+  version.entry.name === entry.name &&
+  version.entry.mobile === entry.mobile &&
+  version.entry.address === entry.address;
+
+export function EntryHistory({ entry, accessToken, onRestore }: EntryHistoryProps) {
+  const [versions, setVersions] = useState<EntryVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    peopleBoardApi.listEntryVersions(accessToken, entry.id)
+      .then(result => {
+        if (!cancelled) setVersions(result);
+      })
+      .catch(error => {
+        console.error('Fetch entry history error:', error);
+        toast.error('Failed to load the history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, entry.id, entry.dateModified]);
+
+  const handleRestore = async (version: EntryVersion) => {
+    setRestoringId(version.event.id);
+    try {
+      await onRestore(version);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8">
+        <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-3">
+          <History className="h-6 w-6 text-muted-foreground" />
+        </div>
+        <p className="text-sm text-muted-foreground text-center">
+          No changes have been recorded for {entry.name} yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative max-h-[50vh] overflow-y-auto space-y-4 border-l border-border/60 ml-2 pl-5 pr-1 py-1">
+      {versions.map((version, index) => (
+        <li key={version.event.id} className="relative space-y-2">
+          <span className="absolute -left-[1.6rem] top-1.5 h-2.5 w-2.5 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600" />
+          <div className="flex items-start justify-between gap-2">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge variant="secondary" className={AUDIT_ACTION_STYLES[version.event.action].className}>
+                  {AUDIT_ACTION_STYLES[version.event.action].label}
+                </Badge>
+                {index === 0 && (
+                  <span className="text-xs text-muted-foreground">Current version</span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {formatAuditActor(version.event)} · {new Date(version.event.timestamp).toLocaleString()}
+              </p>
+            </div>
+            {!matchesEntry(version, entry) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRestore(version)}
+                disabled={restoringId !== null}
+                className="flex-shrink-0"
+              >
+                {restoringId === version.event.id ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Restore
+              </Button>
+            )}
+          </div>
+          <AuditChanges changes={version.event.changes} />
+        </li>
+      ))}
+    </ol>
+  );
+}
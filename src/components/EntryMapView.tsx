@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Loader2, LocateFixed, MapPin, Minus, Plus, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import {
+  clampZoom,
+  clusterPoints,
+  fitView,
+  project,
+  visibleTiles,
+  type WorldPoint,
+} from '@/lib/map';
+import type { EntryLocations, MapPoint, UserEntry } from '@/types';
+
+const MAP_HEIGHT = 480;
+
+type View = { center: WorldPoint; zoom: number };
+
+type Drag = { pointerId: number; startX: number; startY: number; center: WorldPoint };
+
+interface EntryMapViewProps {
+  accessToken: string | null;
+  // Left out when the user can't edit entries; the map is then read-only and
+  // can't look up missing locations either
+  onEditEntry?: (entry: UserEntry) => void;
+}
+
+export function EntryMapView({ accessToken, onEditEntry }: EntryMapViewProps) {
+  const [locations, setLocations] = useState<EntryLocations | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [geocoding, setGeocoding] = useState(false);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<View | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  // The data the view was last fitted to, so resizing doesn't undo panning
+  const framedRef = useRef<EntryLocations | null>(null);
+
+  const fetchLocations = useCallback(async () => {
+    setLoading(true);
+    try {
+      setLocations(await peopleBoardApi.listEntryLocations(accessToken));
+    } catch (error) {
+      console.error('Fetch locations error:', error);
+      toast.error('Failed to load the map');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [locations]);
+
+  const points = (locations?.points ?? []).map(point => ({ ...point, world: project(point.location) }));
+
+  // Frame everyone whenever the data is (re)loaded
+  useEffect(() => {
+    if (!locations || width === 0 || framedRef.current === locations) return;
+    framedRef.current = locations;
+    setView(fitView(locations.points.map(point => project(point.location)), width, MAP_HEIGHT));
+  }, [locations, width]);
+
+  const handleGeocodeMissing = async () => {
+    setGeocoding(true);
+    try {
+      const { located, remaining } = await peopleBoardApi.geocodeMissingLocations(accessToken);
+      toast.success(
+        `Located ${located} ${located === 1 ? 'person' : 'people'}` +
+        (remaining > 0 ? `; ${remaining} left to look up` : '')
+      );
+      await fetchLocations();
+    } catch (error) {
+      console.error('Geocode locations error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to locate people');
+    } finally {
+      setGeocoding(false);
+    }
+  };
+
+  const handleOpenEntry = async (point: MapPoint) => {
+    if (!onEditEntry) return;
+    try {
+      onEditEntry(await peopleBoardApi.getEntry(accessToken, point.id));
+    } catch (error) {
+      console.error('Fetch entry error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to open this person');
+    }
+  };
+
+  const zoomBy = (delta: number) =>
+    setView(current => current && { ...current, zoom: clampZoom(current.zoom + delta) });
+
+  // Markers and controls handle their own clicks, so drags start elsewhere
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!view || (e.target as HTMLElement).closest('button, a')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, center: view.center };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    setView(current => {
+      if (!current) return current;
+      const scale = 2 ** current.zoom;
+      return {
+        ...current,
+        center: {
+          x: drag.center.x - (e.clientX - drag.startX) / scale,
+          y: drag.center.y - (e.clientY - drag.startY) / scale,
+        },
+      };
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const scale = view ? 2 ** view.zoom : 1;
+  const originX = view ? view.center.x * scale - width / 2 : 0;
+  const originY = view ? view.center.y * scale - MAP_HEIGHT / 2 : 0;
+  const tiles = view ? visibleTiles(view.center, view.zoom, width, MAP_HEIGHT) : [];
+  const clusters = view ? clusterPoints(points, view.zoom) : [];
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <CardTitle className="text-lg">Map</CardTitle>
+            {locations && (
+              <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+                {locations.points.length} {locations.points.length === 1 ? 'person' : 'people'} placed
+              </Badge>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchLocations} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+        {locations && locations.unlocated > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm text-muted-foreground">
+            <p>
+              {locations.unlocated} {locations.unlocated === 1 ? 'person has' : 'people have'} no location yet.
+              {!locations.geocodingEnabled && ' Geocoding is turned off on the server.'}
+            </p>
+            {locations.geocodingEnabled && onEditEntry && (
+              <Button variant="outline" size="sm" onClick={handleGeocodeMissing} disabled={geocoding}>
+                {geocoding ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <LocateFixed className="h-4 w-4 mr-2" />
+                )}
+                Locate Missing
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!locations ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : locations.points.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <MapPin className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">Nobody on the Map Yet</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              People appear here once their address has been located.
+            </p>
+          </div>
+        ) : (
+          <div
+            ref={containerRef}
+            className="relative overflow-hidden rounded-lg border border-border/50 bg-slate-100 select-none touch-none cursor-grab active:cursor-grabbing"
+            style={{ height: MAP_HEIGHT }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {tiles.map(tile => (
+              <img
+                key={tile.key}
+                src={tile.url}
+                alt=""
+                draggable={false}
+                className="absolute pointer-events-none"
+                style={{ left: tile.left, top: tile.top, width: 256, height: 256 }}
+              />
+            ))}
+
+            {clusters.map(cluster => (
+              <Popover key={cluster.key}>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    className="absolute -translate-x-1/2 -translate-y-full flex items-center justify-center"
+                    style={{ left: cluster.world.x * scale - originX, top: cluster.world.y * scale - originY }}
+                    aria-label={cluster.members.map(member => member.name).join(', ')}
+                  >
+                    {cluster.members.length === 1 ? (
+                      <MapPin className="h-7 w-7 text-indigo-600 fill-white drop-shadow" />
+                    ) : (
+                      <span className="min-w-7 h-7 px-2 rounded-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white text-xs font-medium flex items-center justify-center shadow">
+                        {cluster.members.length}
+                      </span>
+                    )}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 p-2">
+                  <div className="max-h-64 overflow-y-auto space-y-1">
+                    {cluster.members.map(member => (
+                      <button
+                        key={member.id}
+                        type="button"
+                        onClick={() => handleOpenEntry(member)}
+                        disabled={!onEditEntry}
+                        className="w-full text-left rounded-md p-2 hover:bg-muted/50 disabled:hover:bg-transparent"
+                      >
+                        <span className="block text-sm font-medium">{member.name}</span>
+                        <span className="block text-xs text-muted-foreground">{member.address}</span>
+                      </button>
+                    ))}
+                  </div>
+                </PopoverContent>
+              </Popover>
+            ))}
+
+            <div className="absolute top-3 right-3 flex flex-col gap-1">
+              <Button variant="outline" size="icon" className="h-8 w-8 bg-white" onClick={() => zoomBy(1)} aria-label="Zoom in">
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" className="h-8 w-8 bg-white" onClick={() => zoomBy(-1)} aria-label="Zoom out">
+                <Minus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="absolute bottom-0 right-0 bg-white/80 px-2 py-0.5 text-[11px] text-slate-600">
+              ©{' '}
+              <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer" className="underline">
+                OpenStreetMap
+              </a>{' '}
+              contributors
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportColumns,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportOptions,
+} from '@/lib/export';
+import type { CustomFieldDefinition, Tag } from '@/types';
+
+export type ExportScope = 'filtered' | 'all' | 'selected';
+
+export type ExportScopeOption = {
+  scope: ExportScope;
+  label: string;
+  count: number;
+};
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialFormat: ExportFormat;
+  scopes: ExportScopeOption[];
+  customFields: CustomFieldDefinition[];
+  tags: Tag[];
+  onExport: (scope: ExportScope, options: ExportOptions) => Promise<void>;
+}
+
+export function ExportDialog({ isOpen, onClose, initialFormat, scopes, customFields, tags, onExport }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>(initialFormat);
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [scope, setScope] = useState<ExportScope>(scopes[0]?.scope ?? 'filtered');
+  const [loading, setLoading] = useState(false);
+
+  // Only reset when the dialog opens; `scopes` changes on every render
+  useEffect(() => {
+    if (isOpen) {
+      setFormat(initialFormat);
+      setScope(scopes[0]?.scope ?? 'filtered');
+    }
+  }, [isOpen, initialFormat]);
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    setColumns(prev => checked ? [...prev, column] : prev.filter(key => key !== column));
+  };
+
+  const selectedScope = scopes.find(option => option.scope === scope);
+
+  const handleExport = async () => {
+    setLoading(true);
+    try {
+      await onExport(scope, { format, columns, customFields, tags });
+      toast.success(`${EXPORT_FORMATS.find(option => option.format === format)?.label} exported successfully!`);
+      onClose();
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export entries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-md mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export People
+          </DialogTitle>
+          <DialogDescription>
+            Dates are exported in ISO 8601 format (UTC).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Format</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex flex-wrap gap-4"
+            >
+              {EXPORT_FORMATS.map(option => (
+                <div key={option.format} className="flex items-center gap-2">
+                  <RadioGroupItem value={option.format} id={`export-format-${option.format}`} />
+                  <Label htmlFor={`export-format-${option.format}`} className="cursor-pointer">
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {scopes.length > 1 && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Entries</Label>
+              <RadioGroup
+                value={scope}
+                onValueChange={(value) => setScope(value as ExportScope)}
+                className="space-y-2"
+              >
+                {scopes.map(option => (
+                  <div key={option.scope} className="flex items-center gap-2">
+                    <RadioGroupItem value={option.scope} id={`export-scope-${option.scope}`} />
+                    <Label htmlFor={`export-scope-${option.scope}`} className="cursor-pointer">
+                      {option.label} ({option.count})
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Columns</Label>
+            <div className="grid grid-cols-2 gap-3">
+              {exportColumns(customFields).map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-column-${key}`}
+                    checked={columns.includes(key)}
+                    onCheckedChange={(checked) => toggleColumn(key, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${key}`} className="cursor-pointer">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={loading || columns.length === 0 || !selectedScope || selectedScope.count === 0}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Exporting...
+              </>
+            ) : (
+              `Export ${selectedScope?.count ?? 0}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,463 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, Upload, FileText, CheckCircle2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { parseCSVRows, type CSVRow } from '@/lib/csv';
+import { validateEntryInput, type EntryErrors } from '@/lib/validation';
+import { formatPhone, normalizePhone } from '@/lib/phone';
+import type { CustomFieldDefinition, CustomFieldValue, UserEntryInput } from '@/types';
+
+type Step = 'upload' | 'map' | 'preview' | 'results';
+
+// Imports take the address on one line; custom fields are mapped separately
+type Field = Exclude<keyof UserEntryInput, 'addressParts' | 'customFields' | 'tags'>;
+
+// Column index in the CSV for each field, or null when not mapped.
+type ColumnMapping = Record<Field, number | null>;
+
+// The same for custom fields, by field key. Unmapped fields are left empty.
+type CustomColumnMapping = Record<string, number | null>;
+
+type PreviewRow = {
+  // 1-based line of the file the row starts on
+  rowNumber: number;
+  input: UserEntryInput;
+  errors: EntryErrors;
+  duplicate: 'board' | 'file' | null;
+};
+
+type ReportRow = {
+  rowNumber: number;
+  name: string;
+  status: 'created' | 'failed' | 'skipped';
+  detail: string;
+};
+
+const FIELDS: { field: Field; label: string; patterns: RegExp }[] = [
+  { field: 'name', label: 'Name', patterns: /name/i },
+  { field: 'mobile', label: 'Mobile Number', patterns: /mobile|phone|contact/i },
+  { field: 'address', label: 'Address', patterns: /address/i },
+];
+
+// The server accepts up to 1000 rows per request
+const IMPORT_CHUNK_SIZE = 500;
+
+const UNMAPPED = 'none';
+
+const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping = { name: null, mobile: null, address: null } as ColumnMapping;
+  for (const { field, patterns } of FIELDS) {
+    const index = headers.findIndex(header => patterns.test(header));
+    mapping[field] = index >= 0 ? index : null;
+  }
+  return mapping;
+};
+
+// Custom fields match a column named like their label or key.
+const guessCustomMapping = (headers: string[], customFields: CustomFieldDefinition[]): CustomColumnMapping =>
+  Object.fromEntries(customFields.map(({ key, label }) => {
+    const index = headers.findIndex(header =>
+      [label.toLowerCase(), key.toLowerCase()].includes(header.trim().toLowerCase())
+    );
+    return [key, index >= 0 ? index : null];
+  }));
+
+// Exports write checkboxes as Yes or No
+const CHECKED_PATTERN = /^(yes|y|true|1|x)$/i;
+
+const toCustomValue = ({ type }: CustomFieldDefinition, cell: string): CustomFieldValue | string =>
+  type === 'checkbox' ? CHECKED_PATTERN.test(cell) : cell;
+
+interface ImportEntriesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  accessToken: string | null;
+  // Rows are checked against these, so required fields must be mapped
+  customFields: CustomFieldDefinition[];
+}
+
+export function ImportEntriesDialog({ isOpen, onClose, onImported, accessToken, customFields }: ImportEntriesDialogProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<CSVRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({ name: null, mobile: null, address: null });
+  const [customMapping, setCustomMapping] = useState<CustomColumnMapping>({});
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [report, setReport] = useState<ReportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({ name: null, mobile: null, address: null });
+    setCustomMapping({});
+    setPreviewRows([]);
+    setSkipDuplicates(true);
+    setReport([]);
+  };
+
+  const handleClose = () => {
+    if (loading) return;
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const [headerRow, ...dataRows] = parseCSVRows(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast.error('The file has no data rows');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow.cells.map(header => header.trim()));
+    setRows(dataRows);
+    setMapping(guessMapping(headerRow.cells));
+    setCustomMapping(guessCustomMapping(headerRow.cells, customFields));
+    setStep('map');
+  };
+
+  const isMappingComplete = FIELDS.every(({ field }) => mapping[field] !== null);
+
+  const buildPreview = async () => {
+    setLoading(true);
+    try {
+      const seen = new Set<string>();
+      const preview: PreviewRow[] = rows.map(({ line, cells }) => {
+        const input: UserEntryInput = {
+          name: (cells[mapping.name!] ?? '').trim(),
+          mobile: (cells[mapping.mobile!] ?? '').trim(),
+          address: (cells[mapping.address!] ?? '').trim(),
+          customFields: Object.fromEntries(customFields.flatMap(field => {
+            const index = customMapping[field.key];
+            return index === null || index === undefined ? [] : [[field.key, toCustomValue(field, (cells[index] ?? '').trim())]];
+          })),
+        };
+        const mobileKey = normalizePhone(input.mobile);
+        const duplicate = mobileKey && seen.has(mobileKey) ? 'file' : null;
+        seen.add(mobileKey);
+        return { rowNumber: line, input, errors: validateEntryInput(input, { customFields }), duplicate };
+      });
+
+      const mobiles = preview
+        .filter(row => Object.keys(row.errors).length === 0)
+        .map(row => row.input.mobile);
+      const existing = new Set(
+        (await peopleBoardApi.findExistingMobiles(accessToken, mobiles)).map(mobile => normalizePhone(mobile))
+      );
+
+      setPreviewRows(preview.map(row =>
+        existing.has(normalizePhone(row.input.mobile)) ? { ...row, duplicate: 'board' } : row
+      ));
+      setStep('preview');
+    } catch (error) {
+      console.error('Import preview error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to validate the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const invalidRows = previewRows.filter(row => Object.keys(row.errors).length > 0);
+  const duplicateRows = previewRows.filter(row => Object.keys(row.errors).length === 0 && row.duplicate);
+  const importableRows = previewRows.filter(row =>
+    Object.keys(row.errors).length === 0 && !(skipDuplicates && row.duplicate)
+  );
+
+  // Chunks are committed one at a time, so when one fails the rows already
+  // imported stay in the report and only the rest are marked as failed.
+  const handleImport = async () => {
+    setLoading(true);
+    const results: ReportRow[] = [];
+    let sent = 0;
+    try {
+      for (; sent < importableRows.length; sent += IMPORT_CHUNK_SIZE) {
+        const chunk = importableRows.slice(sent, sent + IMPORT_CHUNK_SIZE);
+        const chunkResults = await peopleBoardApi.importEntries(accessToken, chunk.map(row => row.input));
+        chunkResults.forEach(result => {
+          const row = chunk[result.index];
+          results.push({
+            rowNumber: row.rowNumber,
+            name: row.input.name,
+            status: result.status,
+            detail: result.status === 'failed' ? result.error : 'Imported',
+          });
+        });
+      }
+    } catch (error) {
+      console.error('Import error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to import entries';
+      toast.error(message);
+      importableRows.slice(sent).forEach(row => results.push({
+        rowNumber: row.rowNumber,
+        name: row.input.name,
+        status: 'failed',
+        detail: `Not imported: ${message}`,
+      }));
+    }
+
+    previewRows
+      .filter(row => !importableRows.includes(row))
+      .forEach(row => results.push({
+        rowNumber: row.rowNumber,
+        name: row.input.name,
+        status: 'skipped',
+        detail: Object.values(row.errors)[0]
+          ?? (row.duplicate === 'board' ? 'Mobile number already on the board' : 'Mobile number repeated in the file'),
+      }));
+
+    setReport(results.sort((a, b) => a.rowNumber - b.rowNumber));
+    setStep('results');
+    setLoading(false);
+
+    const createdCount = results.filter(row => row.status === 'created').length;
+    if (createdCount > 0) {
+      onImported();
+      toast.success(`${createdCount} ${createdCount === 1 ? 'person' : 'people'} imported`);
+    }
+  };
+
+  const rowStatus = (row: PreviewRow) => {
+    if (Object.keys(row.errors).length > 0) {
+      return <Badge variant="destructive">{Object.values(row.errors)[0]}</Badge>;
+    }
+    if (row.duplicate) {
+      return (
+        <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+          {row.duplicate === 'board' ? 'Already on board' : 'Repeated in file'}
+        </Badge>
+      );
+    }
+    return <Badge variant="secondary" className="bg-emerald-100 text-emerald-800">Ready</Badge>;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import People from CSV
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Choose a CSV file with a header row.'}
+            {step === 'map' && `Match the columns in ${fileName} to People Board fields.`}
+            {step === 'preview' && 'Review the rows before importing. Invalid rows are never imported.'}
+            {step === 'results' && 'Import finished. Each row of the file is listed below.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 py-12 rounded-lg border-2 border-dashed border-border/70 cursor-pointer hover:bg-muted/30 transition-colors">
+            <FileText className="h-8 w-8 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Click to choose a .csv file</span>
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+          </label>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4 py-2">
+            <p className="text-sm text-muted-foreground">
+              {rows.length} data row{rows.length !== 1 ? 's' : ''} found.
+            </p>
+            {FIELDS.map(({ field, label }) => (
+              <div key={field} className="grid grid-cols-1 sm:grid-cols-3 items-center gap-2">
+                <Label className="text-sm font-medium">{label}</Label>
+                <div className="sm:col-span-2">
+                  <Select
+                    value={mapping[field] === null ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) => setMapping(prev => ({
+                      ...prev,
+                      [field]: value === UNMAPPED ? null : Number(value),
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+            {customFields.map(field => (
+              <div key={field.key} className="grid grid-cols-1 sm:grid-cols-3 items-center gap-2">
+                <Label className="text-sm font-medium">
+                  {field.label}
+                  {field.required && <span className="text-muted-foreground font-normal"> (required)</span>}
+                </Label>
+                <div className="sm:col-span-2">
+                  <Select
+                    value={customMapping[field.key] == null ? UNMAPPED : String(customMapping[field.key])}
+                    onValueChange={(value) => setCustomMapping(prev => ({
+                      ...prev,
+                      [field.key]: value === UNMAPPED ? null : Number(value),
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="bg-emerald-100 text-emerald-800">
+                {importableRows.length} to import
+              </Badge>
+              {invalidRows.length > 0 && (
+                <Badge variant="destructive">{invalidRows.length} invalid</Badge>
+              )}
+              {duplicateRows.length > 0 && (
+                <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                  {duplicateRows.length} duplicate{duplicateRows.length !== 1 ? 's' : ''}
+                </Badge>
+              )}
+            </div>
+            {duplicateRows.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="skip-duplicates"
+                  checked={skipDuplicates}
+                  onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                />
+                <Label htmlFor="skip-duplicates" className="text-sm">
+                  Skip rows whose mobile number is already on the board or repeated in the file
+                </Label>
+              </div>
+            )}
+            <ScrollArea className="h-80 rounded-lg border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Mobile Number</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      <TableCell>{row.input.name}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatPhone(row.input.mobile)}</TableCell>
+                      <TableCell className="text-muted-foreground max-w-[12rem]">
+                        <div className="truncate" title={row.input.address}>{row.input.address}</div>
+                      </TableCell>
+                      <TableCell>{rowStatus(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {step === 'results' && (
+          <ScrollArea className="h-80 rounded-lg border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30 hover:bg-muted/30">
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.map(row => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 text-sm">
+                        {row.status === 'created' ? (
+                          <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                        ) : (
+                          <XCircle className={`h-4 w-4 ${row.status === 'failed' ? 'text-destructive' : 'text-amber-600'}`} />
+                        )}
+                        {row.detail}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={loading}>Back</Button>
+              <Button onClick={buildPreview} disabled={!isMappingComplete || loading}>
+                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={loading}>Back</Button>
+              <Button
+                onClick={handleImport}
+                disabled={importableRows.length === 0 || loading}
+                className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  `Import ${importableRows.length} ${importableRows.length === 1 ? 'person' : 'people'}`
+                )}
+              </Button>
+            </>
+          )}
+          {(step === 'upload' || step === 'results') && (
+            <Button variant="outline" onClick={handleClose}>
+              {step === 'results' ? 'Done' : 'Cancel'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
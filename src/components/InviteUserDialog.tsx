@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, appUrl } from '@/lib/users';
+import type { PendingInvite, Role } from '@/types';
+
+interface InviteUserDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInvited: (invite: PendingInvite) => void;
+  accessToken: string | null;
+}
+
+export function InviteUserDialog({ isOpen, onClose, onInvited, accessToken }: InviteUserDialogProps) {
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<Role>('user');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEmail('');
+      setName('');
+      setRole('user');
+    }
+  }, [isOpen]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      onInvited(await peopleBoardApi.createInvite(accessToken, { email, name, role }, appUrl()));
+      onClose();
+    } catch (error) {
+      console.error('Invite user error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send invite');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-md mx-auto">
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+          <DialogDescription>
+            Emails them a one-time link to create their account with this role. The link expires after a few days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleInvite} className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email" className="text-sm font-medium">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invite-name" className="text-sm font-medium">Name</Label>
+            <Input
+              id="invite-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Optional"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as Role)} disabled={loading}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map(value => (
+                  <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !email.trim()}
+              className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Send Invite'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
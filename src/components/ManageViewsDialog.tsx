@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Bookmark, Edit, Pin, PinOff, Trash2 } from 'lucide-react';
+import type { SavedView } from '@/types';
+
+interface ManageViewsDialogProps {
+  views: SavedView[];
+  pinnedIds: string[];
+  currentUserId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  busy: boolean;
+  onTogglePin: (view: SavedView) => void;
+  onEdit: (view: SavedView) => void;
+  onDelete: (view: SavedView) => void;
+}
+
+export function ManageViewsDialog({
+  views,
+  pinnedIds,
+  currentUserId,
+  isOpen,
+  onClose,
+  busy,
+  onTogglePin,
+  onEdit,
+  onDelete,
+}: ManageViewsDialogProps) {
+  const [deleteTarget, setDeleteTarget] = useState<SavedView | null>(null);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Saved Views</DialogTitle>
+          <DialogDescription>
+            Pinned views show as quick tabs above the People Directory. Views shared by others can be pinned but
+            not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {views.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <Bookmark className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <p className="text-muted-foreground text-center max-w-sm">
+              Set up the filters, sort and columns you use often, then choose Save as New View.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 py-2">
+            {views.map(view => {
+              const isOwner = view.ownerId === currentUserId;
+              const isPinned = pinnedIds.includes(view.id);
+              return (
+                <div
+                  key={view.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border border-border/50"
+                >
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className="font-medium text-foreground break-words">{view.name}</h3>
+                      {view.shared && <Badge variant="secondary">Shared</Badge>}
+                    </div>
+                    {!isOwner && (
+                      <p className="text-xs text-muted-foreground break-all">Shared by {view.ownerEmail || view.ownerId}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onTogglePin(view)}
+                      disabled={busy}
+                      aria-label={isPinned ? `Unpin ${view.name}` : `Pin ${view.name}`}
+                      title={isPinned ? 'Unpin' : 'Pin as a quick tab'}
+                    >
+                      {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    {isOwner && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => onEdit(view)} disabled={busy}>
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDeleteTarget(view)}
+                          disabled={busy}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {deleteTarget?.shared
+                  ? 'The view is also removed for everyone it was shared with.'
+                  : 'The view and its quick tab are removed.'}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (deleteTarget) onDelete(deleteTarget);
+                  setDeleteTarget(null);
+                }}
+                className="bg-destructive text-white hover:bg-destructive/90"
+              >
+                Delete View
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
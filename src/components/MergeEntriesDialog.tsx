@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { formatCustomFieldValue } from '@/lib/customFields';
+import { formatPhone } from '@/lib/phone';
+import type { CustomFieldDefinition, CustomFieldValue, DuplicatePair, UserEntry, UserEntryInput } from '@/types';
+
+// Address parts are taken from the same entry as the address; custom fields
+// are chosen one by one
+type MergeField = Exclude<keyof UserEntryInput, 'addressParts' | 'customFields' | 'tags'>;
+
+const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'name', label: 'Full Name' },
+  { key: 'mobile', label: 'Mobile Number' },
+  { key: 'address', label: 'Address' },
+];
+
+const formatValue = (field: MergeField, value: string) => (field === 'mobile' ? formatPhone(value) : value);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+interface MergeEntriesDialogProps {
+  pair: DuplicatePair | null;
+  customFields: CustomFieldDefinition[];
+  onClose: () => void;
+  onMerged: (entry: UserEntry) => void;
+  accessToken: string | null;
+}
+
+export function MergeEntriesDialog({ pair, customFields, onClose, onMerged, accessToken }: MergeEntriesDialogProps) {
+  const [keepId, setKeepId] = useState('');
+  // Which entry each field's value is taken from
+  const [sources, setSources] = useState<Record<MergeField, string>>({ name: '', mobile: '', address: '' });
+  // The same for custom fields, by key
+  const [customSources, setCustomSources] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Keep the older entry by default; it usually has the longer history
+  useEffect(() => {
+    if (pair) {
+      const [older, newer] = [...pair.entries].sort((a, b) => a.dateAdded.localeCompare(b.dateAdded));
+      setKeepId(older.id);
+      setSources({ name: older.id, mobile: older.id, address: older.id });
+      // Custom values the older entry doesn't have come from the newer one
+      setCustomSources(Object.fromEntries(customFields.map(({ key }) => [
+        key,
+        older.customFields?.[key] === undefined ? newer.id : older.id,
+      ])));
+    }
+  }, [pair, customFields]);
+
+  if (!pair) return null;
+
+  const entryById = (id: string) => pair.entries.find(entry => entry.id === id) ?? pair.entries[0];
+  const keep = entryById(keepId);
+  const merge = pair.entries.find(entry => entry.id !== keep.id) ?? pair.entries[1];
+
+  const customValue = (entry: UserEntry, key: string) => entry.customFields?.[key];
+  const chosenCustomFields = () => {
+    const values: Record<string, CustomFieldValue> = {};
+    for (const { key } of customFields) {
+      const value = customValue(entryById(customSources[key] ?? keep.id), key);
+      if (value !== undefined) values[key] = value;
+    }
+    return values;
+  };
+
+  const handleMerge = async () => {
+    setLoading(true);
+    try {
+      const entry = await peopleBoardApi.mergeEntries(accessToken, {
+        keepId: keep.id,
+        mergeId: merge.id,
+        values: {
+          name: entryById(sources.name).name,
+          mobile: entryById(sources.mobile).mobile,
+          address: entryById(sources.address).address,
+          addressParts: entryById(sources.address).addressParts,
+          customFields: chosenCustomFields(),
+        },
+        keepDateModified: keep.dateModified ?? null,
+        mergeDateModified: merge.dateModified ?? null,
+      });
+      toast.success(`${merge.name} merged into ${entry.name}`);
+      onMerged(entry);
+      onClose();
+    } catch (error) {
+      console.error('Merge entries error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge entries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={pair !== null} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-lg mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge People
+          </DialogTitle>
+          <DialogDescription>
+            Choose which record to keep and which value to use for each field. The other record moves to
+            the trash, and both keep their history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Record to keep</Label>
+            <RadioGroup value={keepId} onValueChange={setKeepId} className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {pair.entries.map(entry => (
+                <Label
+                  key={entry.id}
+                  htmlFor={`merge-keep-${entry.id}`}
+                  className={`flex items-start gap-2 rounded-md border p-3 cursor-pointer font-normal ${
+                    keepId === entry.id ? 'border-primary bg-primary/5' : 'border-border/50'
+                  }`}
+                >
+                  <RadioGroupItem value={entry.id} id={`merge-keep-${entry.id}`} className="mt-0.5" />
+                  <span className="min-w-0">
+                    <span className="block font-medium">{entry.name}</span>
+                    <span className="block text-xs text-muted-foreground">Added {formatDate(entry.dateAdded)}</span>
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {MERGE_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label className="text-sm font-medium">{label}</Label>
+              {pair.entries[0][key] === pair.entries[1][key] ? (
+                <p className="text-sm rounded-md border border-border/50 p-3 break-words">{formatValue(key, pair.entries[0][key])}</p>
+              ) : (
+                <RadioGroup
+                  value={sources[key]}
+                  onValueChange={(value) => setSources(prev => ({ ...prev, [key]: value }))}
+                  className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+                >
+                  {pair.entries.map(entry => (
+                    <Label
+                      key={entry.id}
+                      htmlFor={`merge-${key}-${entry.id}`}
+                      className={`flex items-start gap-2 rounded-md border p-3 cursor-pointer font-normal ${
+                        sources[key] === entry.id ? 'border-primary bg-primary/5' : 'border-border/50'
+                      }`}
+                    >
+                      <RadioGroupItem value={entry.id} id={`merge-${key}-${entry.id}`} className="mt-0.5" />
+                      <span className="min-w-0 break-words">{formatValue(key, entry[key])}</span>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              )}
+            </div>
+          ))}
+
+          {customFields
+            .filter(({ key }) => customValue(pair.entries[0], key) !== customValue(pair.entries[1], key))
+            .map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label className="text-sm font-medium">{label}</Label>
+                <RadioGroup
+                  value={customSources[key]}
+                  onValueChange={(value) => setCustomSources(prev => ({ ...prev, [key]: value }))}
+                  className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+                >
+                  {pair.entries.map(entry => (
+                    <Label
+                      key={entry.id}
+                      htmlFor={`merge-custom-${key}-${entry.id}`}
+                      className={`flex items-start gap-2 rounded-md border p-3 cursor-pointer font-normal ${
+                        customSources[key] === entry.id ? 'border-primary bg-primary/5' : 'border-border/50'
+                      }`}
+                    >
+                      <RadioGroupItem value={entry.id} id={`merge-custom-${key}-${entry.id}`} className="mt-0.5" />
+                      <span className="min-w-0 break-words">
+                        {customValue(entry, key) === undefined ? (
+                          <span className="text-muted-foreground">No value</span>
+                        ) : (
+                          formatCustomFieldValue(customValue(entry, key))
+                        )}
+                      </span>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </div>
+            ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={loading}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Merging...
+              </>
+            ) : (
+              'Merge'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ClipboardList, Edit, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { formatPhone } from '@/lib/phone';
+import { EditPersonDialog } from '@/components/EditPersonDialog';
+import type { CustomFieldDefinition, UserEntry } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface MyEntriesListProps {
+  accessToken: string | null;
+  // The signed-in user's entries, newest first
+  entries: UserEntry[];
+  deleteWindowHours: number;
+  loading: boolean;
+  customFields: CustomFieldDefinition[];
+  onChange: (entries: UserEntry[]) => void;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+export function MyEntriesList({
+  accessToken,
+  entries,
+  deleteWindowHours,
+  loading,
+  customFields,
+  onChange,
+}: MyEntriesListProps) {
+  const [editingEntry, setEditingEntry] = useState<UserEntry | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<UserEntry | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // The server refuses deletes after the window; this only hides the button
+  const canDelete = (entry: UserEntry) =>
+    Date.now() < new Date(entry.dateAdded).getTime() + deleteWindowHours * HOUR_MS;
+
+  const handleSaveEdit = (updatedEntry: UserEntry) => {
+    onChange(entries.map(entry => (entry.id === updatedEntry.id ? updatedEntry : entry)));
+    toast.success(`${updatedEntry.name} updated`);
+  };
+
+  const handleDelete = async (entry: UserEntry) => {
+    setBusyId(entry.id);
+    try {
+      await peopleBoardApi.deleteMyEntry(accessToken, entry.id);
+      onChange(entries.filter(other => other.id !== entry.id));
+      toast.success(`${entry.name} deleted`);
+    } catch (error) {
+      console.error('Delete own entry error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete entry');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg text-gray-900">My Entries</CardTitle>
+          <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+            {entries.length}
+          </Badge>
+        </div>
+        {!loading && (
+          <p className="text-sm text-gray-600">
+            People you have added. You can correct them at any time, and delete them for {deleteWindowHours} hours
+            after adding them.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading && entries.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8">
+            <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-3">
+              <ClipboardList className="h-6 w-6 text-muted-foreground" />
+            </div>
+            <p className="text-sm text-muted-foreground text-center">
+              Entries you save will appear here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-start justify-between gap-3 p-4 rounded-lg border border-border/50 bg-white">
+                <div className="min-w-0">
+                  <h3 className="font-medium text-foreground">{entry.name}</h3>
+                  <p className="text-sm text-muted-foreground">{formatPhone(entry.mobile)}</p>
+                  <p className="text-sm text-muted-foreground truncate" title={entry.address}>{entry.address}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Added {formatDate(entry.dateAdded)}
+                    {entry.dateModified && ` · edited ${formatDate(entry.dateModified)}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setEditingEntry(entry)}
+                    disabled={busyId === entry.id}
+                    aria-label={`Edit ${entry.name}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  {canDelete(entry) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                      onClick={() => setDeleteTarget(entry)}
+                      disabled={busyId === entry.id}
+                      aria-label={`Delete ${entry.name}`}
+                    >
+                      {busyId === entry.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <EditPersonDialog
+        entry={editingEntry}
+        isOpen={editingEntry !== null}
+        onClose={() => setEditingEntry(null)}
+        onSave={handleSaveEdit}
+        accessToken={accessToken}
+        customFields={customFields}
+        tags={[]}
+        ownEntry
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the entry from your list and from the board. Ask an administrator if you need it back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteTarget) handleDelete(deleteTarget);
+                setDeleteTarget(null);
+              }}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PHONE_COUNTRIES } from '@/lib/phone';
+
+// The aria attributes let FormControl describe the number input
+interface PhoneInputProps extends Pick<React.ComponentProps<'input'>, 'aria-invalid' | 'aria-describedby'> {
+  id?: string;
+  country: string;
+  onCountryChange: (country: string) => void;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  // Applied to the number input
+  className?: string;
+}
+
+// Country selector plus national number. Numbers typed with a leading + use
+// their own country code instead of the selected one.
+export function PhoneInput({
+  id,
+  country,
+  onCountryChange,
+  value,
+  onChange,
+  placeholder = 'Enter mobile number',
+  disabled,
+  className,
+  ...ariaProps
+}: PhoneInputProps) {
+  return (
+    <div className="flex gap-2">
+      <Select value={country} onValueChange={onCountryChange} disabled={disabled}>
+        <SelectTrigger className="w-[110px] flex-shrink-0 !h-auto self-stretch" aria-label="Country">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PHONE_COUNTRIES.map(option => (
+            <SelectItem key={option.code} value={option.code}>
+              <span className="font-medium">{option.code}</span>
+              <span className="text-muted-foreground">+{option.dialCode}</span>
+              <span className="sr-only">{option.name}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        id={id}
+        type="tel"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={className}
+        {...ariaProps}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import type { SavedView, SavedViewFilters } from '@/types';
+
+interface SaveViewDialogProps {
+  // The view to rename, or null to save `filters` as a new view
+  view: SavedView | null;
+  filters: SavedViewFilters;
+  isOpen: boolean;
+  onClose: () => void;
+  // `pin` is set when a new view should be added to the quick tabs
+  onSave: (view: SavedView, pin: boolean) => void;
+  accessToken: string | null;
+}
+
+export function SaveViewDialog({ view, filters, isOpen, onClose, onSave, accessToken }: SaveViewDialogProps) {
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [pin, setPin] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(view?.name ?? '');
+      setShared(view?.shared ?? false);
+      setPin(true);
+    }
+  }, [isOpen, view]);
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const saved = view
+        ? await peopleBoardApi.updateSavedView(accessToken, view.id, { name, shared, filters: view.filters })
+        : await peopleBoardApi.createSavedView(accessToken, { name, shared, filters });
+      onSave(saved, !view && pin);
+      onClose();
+    } catch (error) {
+      console.error('Save view error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save view');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-md mx-auto">
+        <DialogHeader>
+          <DialogTitle>{view ? 'Edit View' : 'Save View'}</DialogTitle>
+          <DialogDescription>
+            {view
+              ? 'Rename the view or change who can see it. Its filters stay as they are.'
+              : 'Saves the current search, date range, tags, sort and columns.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name" className="text-sm font-medium">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Volunteers this month"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="saved-view-shared" className="text-sm font-medium">Share with everyone on the dashboard</Label>
+              <p className="text-xs text-muted-foreground">They can use and pin the view, but not change it.</p>
+            </div>
+            <Switch id="saved-view-shared" checked={shared} onCheckedChange={setShared} disabled={loading} />
+          </div>
+
+          {!view && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="saved-view-pin" className="text-sm font-medium">Pin as a quick tab</Label>
+              <Switch id="saved-view-pin" checked={pin} onCheckedChange={setPin} disabled={loading} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={loading || !name.trim()}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save View'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, BookmarkPlus, ChevronDown, Pin, RotateCcw, Save, Settings2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { sameFilters } from '@/lib/savedViews';
+import { SaveViewDialog } from '@/components/SaveViewDialog';
+import { ManageViewsDialog } from '@/components/ManageViewsDialog';
+import type { SavedView, SavedViewFilters } from '@/types';
+
+interface SavedViewsBarProps {
+  views: SavedView[];
+  pinnedIds: string[];
+  // The view last applied, if it still exists
+  activeView: SavedView | null;
+  // The dashboard's current search, dates, tags, sort and columns
+  filters: SavedViewFilters;
+  currentUserId: string;
+  accessToken: string | null;
+  // Applies a view's filters, or clears every filter for null
+  onApply: (view: SavedView | null) => void;
+  onViewsChange: (views: SavedView[], pinnedIds: string[]) => void;
+}
+
+const byName = (a: SavedView, b: SavedView) => a.name.localeCompare(b.name);
+
+// Quick tabs for the pinned views, and a menu to save, update and manage views.
+export function SavedViewsBar({
+  views,
+  pinnedIds,
+  activeView,
+  filters,
+  currentUserId,
+  accessToken,
+  onApply,
+  onViewsChange,
+}: SavedViewsBarProps) {
+  const [busy, setBusy] = useState(false);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [editingView, setEditingView] = useState<SavedView | null>(null);
+  const [isManageDialogOpen, setIsManageDialogOpen] = useState(false);
+
+  const isModified = activeView !== null && !sameFilters(activeView.filters, filters);
+  const pinnedViews = pinnedIds.flatMap(id => views.filter(view => view.id === id));
+
+  const run = async (action: () => Promise<void>, fallbackError: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Saved view error:', error);
+      toast.error(error instanceof Error ? error.message : fallbackError);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openSaveDialog = (view: SavedView | null) => {
+    setEditingView(view);
+    setIsSaveDialogOpen(true);
+  };
+
+  const handleSaved = (saved: SavedView, pin: boolean) => {
+    const exists = views.some(view => view.id === saved.id);
+    const nextViews = (exists ? views.map(view => (view.id === saved.id ? saved : view)) : [...views, saved]).sort(byName);
+    if (!pin) {
+      onViewsChange(nextViews, pinnedIds);
+      toast.success(`${saved.name} saved`);
+      return;
+    }
+    run(async () => {
+      onViewsChange(nextViews, await peopleBoardApi.setPinnedViews(accessToken, [...pinnedIds, saved.id]));
+      toast.success(`${saved.name} saved and pinned`);
+    }, 'Failed to pin view');
+    if (!exists) onApply(saved);
+  };
+
+  const handleUpdateFilters = (view: SavedView) => run(async () => {
+    const saved = await peopleBoardApi.updateSavedView(accessToken, view.id, {
+      name: view.name,
+      shared: view.shared,
+      filters,
+    });
+    onViewsChange(views.map(v => (v.id === saved.id ? saved : v)), pinnedIds);
+    toast.success(`${saved.name} updated`);
+  }, 'Failed to update view');
+
+  const handleTogglePin = (view: SavedView) => run(async () => {
+    const ids = pinnedIds.includes(view.id) ? pinnedIds.filter(id => id !== view.id) : [...pinnedIds, view.id];
+    onViewsChange(views, await peopleBoardApi.setPinnedViews(accessToken, ids));
+  }, 'Failed to update pinned views');
+
+  const handleDelete = (view: SavedView) => run(async () => {
+    await peopleBoardApi.deleteSavedView(accessToken, view.id);
+    onViewsChange(views.filter(v => v.id !== view.id), pinnedIds.filter(id => id !== view.id));
+    toast.success(`${view.name} deleted`);
+  }, 'Failed to delete view');
+
+  const tabClassName = (active: boolean) =>
+    `h-9 px-4 ${active ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100 hover:text-blue-800' : ''}`;
+
+  return (
+    <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" className={tabClassName(activeView === null)} onClick={() => onApply(null)}>
+          <Users className="h-4 w-4 mr-2" />
+          All People
+        </Button>
+        {pinnedViews.map(view => (
+          <Button
+            key={view.id}
+            variant="outline"
+            size="sm"
+            className={tabClassName(view.id === activeView?.id)}
+            onClick={() => onApply(view)}
+          >
+            <Pin className="h-4 w-4 mr-2" />
+            {view.name}
+            {view.id === activeView?.id && isModified && (
+              <span className="ml-1 h-2 w-2 rounded-full bg-amber-500" aria-label="Modified" />
+            )}
+          </Button>
+        ))}
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9 px-4" disabled={busy}>
+            <Bookmark className="h-4 w-4 mr-2" />
+            Views
+            <ChevronDown className="h-4 w-4 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuItem onClick={() => openSaveDialog(null)}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save as New View
+          </DropdownMenuItem>
+          {activeView && isModified && activeView.ownerId === currentUserId && (
+            <DropdownMenuItem onClick={() => handleUpdateFilters(activeView)}>
+              <Save className="h-4 w-4 mr-2" />
+              Update &quot;{activeView.name}&quot;
+            </DropdownMenuItem>
+          )}
+          {activeView && isModified && (
+            <DropdownMenuItem onClick={() => onApply(activeView)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Revert Changes
+            </DropdownMenuItem>
+          )}
+          {views.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Saved Views</DropdownMenuLabel>
+              {views.map(view => (
+                <DropdownMenuItem key={view.id} onClick={() => onApply(view)}>
+                  <span className="truncate">{view.name}</span>
+                  {view.ownerId !== currentUserId && (
+                    <span className="ml-auto text-xs text-muted-foreground">Shared</span>
+                  )}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setIsManageDialogOpen(true)}>
+            <Settings2 className="h-4 w-4 mr-2" />
+            Manage Views
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SaveViewDialog
+        view={editingView}
+        filters={filters}
+        isOpen={isSaveDialogOpen}
+        onClose={() => setIsSaveDialogOpen(false)}
+        onSave={handleSaved}
+        accessToken={accessToken}
+      />
+
+      <ManageViewsDialog
+        views={views}
+        pinnedIds={pinnedIds}
+        currentUserId={currentUserId}
+        isOpen={isManageDialogOpen}
+        onClose={() => setIsManageDialogOpen(false)}
+        busy={busy}
+        onTogglePin={handleTogglePin}
+        onEdit={(view) => openSaveDialog(view)}
+        onDelete={handleDelete}
+      />
+    </div>
+  );
+}
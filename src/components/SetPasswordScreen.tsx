@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/utils/supabase/client';
+import type { User as UserType } from '@/types';
+
+interface SetPasswordScreenProps {
+  user: UserType;
+  onDone: () => void;
+}
+
+// Opened from an invite or password reset link, which has already signed the user in.
+export function SetPasswordScreen({ user, onDone }: SetPasswordScreenProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) {
+        throw new Error(error.message);
+      }
+      toast.success('Password saved');
+      onDone();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save password');
+      console.error('Set password error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm shadow-lg border-0 bg-white/90 backdrop-blur-sm">
+        <CardHeader className="text-center pb-6">
+          <div className="w-16 h-16 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full flex items-center justify-center mx-auto mb-4">
+            <KeyRound className="h-8 w-8 text-white" />
+          </div>
+          <CardTitle className="text-xl text-gray-900">Choose a Password</CardTitle>
+          <CardDescription className="text-gray-600">
+            You&apos;ll sign in as {user.email} with it from now on
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="new-password" className="text-gray-700">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                placeholder="Enter a password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-new-password" className="text-gray-700">Confirm Password</Label>
+              <Input
+                id="confirm-new-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                placeholder="Confirm your password"
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive" className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button
+              type="submit"
+              disabled={loading}
+              className="w-full h-12 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white shadow-lg"
+            >
+              {loading ? 'Saving...' : 'Save Password'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,28 +1,51 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { User, Shield, ArrowLeft } from 'lucide-react';
-import { projectId, publicAnonKey } from '@/utils/supabase/info';
+import { User, ArrowLeft } from 'lucide-react';
+import { peopleBoardApi } from '@/lib/api';
+import { ROLE_LABELS } from '@/lib/users';
 import { supabase } from '@/utils/supabase/client';
-import type { User as UserType } from '@/types';
+import type { InviteDetails, User as UserType } from '@/types';
 
 interface SignupScreenProps {
   onSignup: (user: UserType, token: string) => void;
   onBackToLogin: () => void;
+  // From an invite link: the account gets the invite's email and role
+  inviteToken?: string | null;
 }
 
-export function SignupScreen({ onSignup, onBackToLogin }: SignupScreenProps) {
+export function SignupScreen({ onSignup, onBackToLogin, inviteToken }: SignupScreenProps) {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [role, setRole] = useState<'user' | 'super_admin'>('user');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  // Set when the invite link can't be used, which hides the form
+  const [inviteError, setInviteError] = useState('');
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    let cancelled = false;
+    peopleBoardApi.getInvite(inviteToken)
+      .then(details => {
+        if (cancelled) return;
+        setInvite(details);
+        setEmail(details.email);
+        setName(details.name);
+      })
+      .catch(error => {
+        console.error('Load invite error:', error);
+        if (!cancelled) setInviteError(error instanceof Error ? error.message : 'Failed to load the invite');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [inviteToken]);
 
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,26 +67,14 @@ export function SignupScreen({ onSignup, onBackToLogin }: SignupScreenProps) {
 
     try {
       // Create user via server endpoint
-      const signupResponse = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-f328fde2/signup`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify({
-            email,
-            password,
-            name,
-            role,
-          }),
-        }
-      );
-
-      if (!signupResponse.ok) {
-        const errorData = await signupResponse.json();
-        throw new Error(errorData.error || 'Signup failed');
+      if (inviteToken) {
+        await peopleBoardApi.acceptInvite({ token: inviteToken, name, password });
+      } else {
+        await peopleBoardApi.signup({
+          email,
+          password,
+          name,
+        });
       }
 
       // After successful signup, sign them in
@@ -104,109 +115,94 @@ export function SignupScreen({ onSignup, onBackToLogin }: SignupScreenProps) {
               <User className="h-8 w-8 text-white" />
             </div>
           </div>
-          <CardTitle className="text-xl text-gray-900">Create Account</CardTitle>
+          <CardTitle className="text-xl text-gray-900">{inviteToken ? 'Accept Invitation' : 'Create Account'}</CardTitle>
           <CardDescription className="text-gray-600">
-            Join our user management system
+            {!inviteToken
+              ? 'Join our user management system'
+              : invite
+                ? `You've been invited to join as a ${ROLE_LABELS[invite.role]}`
+                : inviteError
+                  ? 'This invite can no longer be used'
+                  : 'Checking your invite...'}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSignup} className="space-y-5">
-            <div className="space-y-2">
-              <Label htmlFor="name" className="text-gray-700">Full Name</Label>
-              <Input
-                id="name"
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                required
-                className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
-                placeholder="Enter your full name"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-gray-700">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
-                placeholder="Enter your email"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-gray-700">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
-                placeholder="Enter your password"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="confirmPassword" className="text-gray-700">Confirm Password</Label>
-              <Input
-                id="confirmPassword"
-                type="password"
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                required
-                className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
-                placeholder="Confirm your password"
-              />
-            </div>
-
-            <div className="space-y-3">
-              <Label className="text-gray-700">Account Type</Label>
-              <RadioGroup 
-                value={role} 
-                onValueChange={(value) => setRole(value as 'user' | 'super_admin')}
-                className="space-y-3"
+          {inviteError && (
+            <Alert variant="destructive" className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800">{inviteError}</AlertDescription>
+            </Alert>
+          )}
+
+          {(!inviteToken || invite) && (
+            <form onSubmit={handleSignup} className="space-y-5">
+              <div className="space-y-2">
+                <Label htmlFor="name" className="text-gray-700">Full Name</Label>
+                <Input
+                  id="name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                  className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                  placeholder="Enter your full name"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-gray-700">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  readOnly={!!inviteToken}
+                  className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20 read-only:bg-gray-50 read-only:text-gray-600"
+                  placeholder="Enter your email"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-gray-700">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                  placeholder="Enter your password"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword" className="text-gray-700">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                  placeholder="Confirm your password"
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive" className="border-red-200 bg-red-50">
+                  <AlertDescription className="text-red-800">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button 
+                type="submit" 
+                disabled={loading} 
+                className="w-full h-12 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white shadow-lg"
               >
-                <div className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors">
-                  <RadioGroupItem value="user" id="user" className="text-blue-600" />
-                  <div className="flex items-center space-x-2 flex-1">
-                    <User className="h-4 w-4 text-gray-600" />
-                    <div>
-                      <Label htmlFor="user" className="text-gray-900 cursor-pointer">Regular User</Label>
-                      <p className="text-sm text-gray-500">Can add and view own entries</p>
-                    </div>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors">
-                  <RadioGroupItem value="super_admin" id="super_admin" className="text-blue-600" />
-                  <div className="flex items-center space-x-2 flex-1">
-                    <Shield className="h-4 w-4 text-gray-600" />
-                    <div>
-                      <Label htmlFor="super_admin" className="text-gray-900 cursor-pointer">Super Admin</Label>
-                      <p className="text-sm text-gray-500">Can view all entries and export data</p>
-                    </div>
-                  </div>
-                </div>
-              </RadioGroup>
-            </div>
-
-            {error && (
-              <Alert variant="destructive" className="border-red-200 bg-red-50">
-                <AlertDescription className="text-red-800">{error}</AlertDescription>
-              </Alert>
-            )}
-
-            <Button 
-              type="submit" 
-              disabled={loading} 
-              className="w-full h-12 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white shadow-lg"
-            >
-              {loading ? 'Creating Account...' : 'Create Account'}
-            </Button>
-          </form>
+                {loading ? 'Creating Account...' : 'Create Account'}
+              </Button>
+            </form>
+          )}
 
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-600">
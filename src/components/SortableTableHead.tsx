@@ -0,0 +1,42 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { TableHead } from '@/components/ui/table';
+import { cn } from '@/components/ui/utils';
+import type { SortField, SortSpec } from '@/types';
+
+interface SortableTableHeadProps {
+  field: SortField;
+  sort: SortSpec[];
+  onSort: (field: SortField, multi: boolean) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+export function SortableTableHead({ field, sort, onSort, className, children }: SortableTableHeadProps) {
+  const index = sort.findIndex(spec => spec.field === field);
+  const spec = index >= 0 ? sort[index] : null;
+  const ariaSort = !spec ? 'none' : spec.direction === 'asc' ? 'ascending' : 'descending';
+
+  return (
+    <TableHead className={cn('font-semibold text-foreground', className)} aria-sort={ariaSort}>
+      <button
+        type="button"
+        onClick={(e) => onSort(field, e.shiftKey)}
+        className="inline-flex items-center gap-1 hover:text-foreground/80 select-none"
+        title="Click to sort, shift-click to add to the sort"
+      >
+        {children}
+        {!spec ? (
+          <ArrowUpDown className="h-3.5 w-3.5 text-muted-foreground/60" />
+        ) : spec.direction === 'asc' ? (
+          <ArrowUp className="h-3.5 w-3.5" />
+        ) : (
+          <ArrowDown className="h-3.5 w-3.5" />
+        )}
+        {spec && sort.length > 1 && (
+          <span className="text-xs text-muted-foreground">{index + 1}</span>
+        )}
+      </button>
+    </TableHead>
+  );
+}
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Check } from 'lucide-react';
+import { TAG_COLOR_CLASSES, entryTags } from '@/lib/tags';
+import type { Tag } from '@/types';
+
+interface TagBadgesProps {
+  // Tag ids, e.g. an entry's `tags`
+  ids: string[] | undefined;
+  tags: Tag[];
+  className?: string;
+}
+
+// An entry's tags as colored badges; renders nothing for untagged entries.
+export function TagBadges({ ids, tags, className }: TagBadgesProps) {
+  const shown = entryTags(ids, tags);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className ?? ''}`}>
+      {shown.map(tag => (
+        <Badge key={tag.id} variant="outline" className={TAG_COLOR_CLASSES[tag.color]}>
+          {tag.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface TagToggleListProps {
+  tags: Tag[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+// Every tag as a badge that can be switched on and off.
+export function TagToggleList({ tags, selected, onChange, disabled }: TagToggleListProps) {
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(selectedId => selectedId !== id) : [...selected, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map(tag => {
+        const isSelected = selected.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            onClick={() => toggle(tag.id)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            className="rounded-md disabled:opacity-50"
+          >
+            <Badge
+              variant="outline"
+              className={`cursor-pointer px-2.5 py-1 ${
+                isSelected ? TAG_COLOR_CLASSES[tag.color] : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              {isSelected && <Check />}
+              {tag.name}
+            </Badge>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Check, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { TAG_COLORS, TAG_COLOR_CLASSES, TAG_SWATCH_CLASSES } from '@/lib/tags';
+import type { Tag, TagColor } from '@/types';
+
+interface TagDialogProps {
+  // The tag to edit, or null to add one
+  tag: Tag | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (tag: Tag) => void;
+  accessToken: string | null;
+}
+
+export function TagDialog({ tag, isOpen, onClose, onSave, accessToken }: TagDialogProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<TagColor>('blue');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(tag?.name ?? '');
+      setColor(tag?.color ?? 'blue');
+    }
+  }, [isOpen, tag]);
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const saved = tag
+        ? await peopleBoardApi.updateTag(accessToken, tag.id, { name, color })
+        : await peopleBoardApi.createTag(accessToken, { name, color });
+      onSave(saved);
+      onClose();
+    } catch (error) {
+      console.error('Save tag error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save tag');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-md mx-auto">
+        <DialogHeader>
+          <DialogTitle>{tag ? 'Edit Tag' : 'Add Tag'}</DialogTitle>
+          <DialogDescription>
+            {tag
+              ? 'Changes show on every person with this tag.'
+              : 'Tags group people so the board can be filtered by them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="tag-name" className="text-sm font-medium">Name</Label>
+            <Input
+              id="tag-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Volunteer"
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {TAG_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  disabled={loading}
+                  aria-label={option}
+                  aria-pressed={color === option}
+                  className={`h-8 w-8 rounded-full flex items-center justify-center text-white ${TAG_SWATCH_CLASSES[option]} ${
+                    color === option ? 'ring-2 ring-offset-2 ring-primary' : ''
+                  }`}
+                >
+                  {color === option && <Check className="h-4 w-4" />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            Preview:
+            <Badge variant="outline" className={TAG_COLOR_CLASSES[color]}>
+              {name.trim() || 'Tag'}
+            </Badge>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={loading || !name.trim()}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Tag'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Edit, Plus, Tags, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { TAG_COLOR_CLASSES } from '@/lib/tags';
+import { TagDialog } from '@/components/TagDialog';
+import type { Tag } from '@/types';
+
+interface TagsViewProps {
+  accessToken: string | null;
+  tags: Tag[];
+  // Called with the new list after every change
+  onChange: (tags: Tag[]) => void;
+  // Called after a deleted tag was removed from entries
+  onEntriesChange: () => void;
+}
+
+const byName = (a: Tag, b: Tag) => a.name.localeCompare(b.name);
+
+export function TagsView({ accessToken, tags, onChange, onEntriesChange }: TagsViewProps) {
+  const [busy, setBusy] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTag, setEditingTag] = useState<Tag | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Tag | null>(null);
+
+  const openDialog = (tag: Tag | null) => {
+    setEditingTag(tag);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaved = (saved: Tag) => {
+    const exists = tags.some(tag => tag.id === saved.id);
+    onChange((exists ? tags.map(tag => (tag.id === saved.id ? saved : tag)) : [...tags, saved]).sort(byName));
+    toast.success(`${saved.name} ${exists ? 'updated' : 'added'}`);
+  };
+
+  const handleDelete = async (target: Tag) => {
+    setBusy(true);
+    try {
+      const affected = await peopleBoardApi.deleteTag(accessToken, target.id);
+      onChange(tags.filter(tag => tag.id !== target.id));
+      if (affected > 0) onEntriesChange();
+      toast.success(`${target.name} deleted`);
+    } catch (error) {
+      console.error('Delete tag error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete tag');
+    } finally {
+      setBusy(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <CardTitle className="text-lg">Tags</CardTitle>
+            <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+              {tags.length} {tags.length === 1 ? 'tag' : 'tags'}
+            </Badge>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => openDialog(null)}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tag
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Tag people from the edit dialog or in bulk from a selection, then filter the board by tag.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {tags.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <Tags className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">No Tags</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              Add tags such as Volunteer, VIP or Needs follow-up to group the people on the board.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {tags.map(tag => (
+              <div
+                key={tag.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-border/50"
+              >
+                <div className="flex flex-wrap items-center gap-2 min-w-0">
+                  <Badge variant="outline" className={TAG_COLOR_CLASSES[tag.color]}>
+                    {tag.name}
+                  </Badge>
+                  <span className="text-sm text-muted-foreground font-mono">{tag.id}</span>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => openDialog(tag)} disabled={busy}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeleteTarget(tag)}
+                    disabled={busy}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <TagDialog
+        tag={editingTag}
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        onSave={handleSaved}
+        accessToken={accessToken}
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tag is removed from everyone who has it. The removal shows in each person&apos;s history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && handleDelete(deleteTarget)}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              Delete Tag
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
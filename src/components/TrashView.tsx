@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { formatPhone } from '@/lib/phone';
+import type { UserEntry } from '@/types';
+
+const PAGE_SIZE = 25;
+
+interface TrashViewProps {
+  accessToken: string | null;
+  retentionDays: number;
+  // Called after an entry is restored or purged so the caller can refresh
+  onChange: () => void;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+export function TrashView({ accessToken, retentionDays, onChange }: TrashViewProps) {
+  const [entries, setEntries] = useState<UserEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeTarget, setPurgeTarget] = useState<UserEntry | null>(null);
+
+  const fetchTrash = useCallback(async (cursor: string | null = null) => {
+    setLoading(true);
+    try {
+      const page = await peopleBoardApi.listEntries(accessToken, {
+        deleted: true,
+        sort: '-deletedAt',
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      setEntries(prev => cursor ? [...prev, ...page.entries] : page.entries);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Fetch trash error:', error);
+      toast.error('Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const removeFromList = (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    setTotal(prev => prev - 1);
+  };
+
+  const handleRestore = async (entry: UserEntry) => {
+    setBusyId(entry.id);
+    try {
+      await peopleBoardApi.restoreEntry(accessToken, entry.id);
+      removeFromList(entry.id);
+      onChange();
+      toast.success(`${entry.name} restored`);
+    } catch (error) {
+      console.error('Restore entry error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore person information');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (entry: UserEntry) => {
+    setBusyId(entry.id);
+    try {
+      await peopleBoardApi.purgeEntry(accessToken, entry.id);
+      removeFromList(entry.id);
+      onChange();
+      toast.success(`${entry.name} permanently deleted`);
+    } catch (error) {
+      console.error('Purge entry error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to permanently delete person information');
+    } finally {
+      setBusyId(null);
+      setPurgeTarget(null);
+    }
+  };
+
+  const purgeDate = (deletedAt: string) =>
+    formatDate(new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString());
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg">Trash</CardTitle>
+          <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+            {total} deleted
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Deleted people are kept for {retentionDays} days before they are permanently removed.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {!loading && entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <Trash2 className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">Trash is Empty</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              People you delete from the directory will appear here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <div
+                key={entry.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-border/50"
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center text-muted-foreground font-medium flex-shrink-0">
+                    {entry.name.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="min-w-0">
+                    <h3 className="font-medium text-foreground">{entry.name}</h3>
+                    <p className="text-sm text-muted-foreground">{formatPhone(entry.mobile)}</p>
+                    <p className="text-sm text-muted-foreground truncate" title={entry.address}>{entry.address}</p>
+                    {entry.deletedAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {entry.mergedInto ? 'Merged into another entry' : 'Deleted'} {formatDate(entry.deletedAt)} · removed permanently on {purgeDate(entry.deletedAt)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(entry)}
+                    disabled={busyId === entry.id}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPurgeTarget(entry)}
+                    disabled={busyId === entry.id}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Forever
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {loading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!loading && nextCursor && (
+              <div className="flex justify-center pt-2">
+                <Button variant="outline" onClick={() => fetchTrash(nextCursor)}>
+                  Load More
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Permanently delete {purgeTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes their information for good. It cannot be restored afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && handlePurge(purgeTarget)}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
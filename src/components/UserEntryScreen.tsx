@@ -1,14 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
-import { Label } from '@/components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { LogOut, User, Phone, MapPin, Save, RotateCcw } from 'lucide-react';
+import { LogOut, User, Phone, MapPin, Save, RotateCcw, AlertTriangle, ClipboardList } from 'lucide-react';
 import { toast } from 'sonner';
-import { projectId } from '@/utils/supabase/info';
-import type { User as UserType } from '@/types';
+import { DuplicateEntryError, EntryValidationError, peopleBoardApi } from '@/lib/api';
+import { describeDuplicateReasons } from '@/lib/duplicates';
+import { DEFAULT_PHONE_COUNTRY } from '@/lib/phone';
+import { EMPTY_ADDRESS_PARTS } from '@/lib/address';
+import { entryFormResolver, setEntryFieldErrors, type EntryFormValues, type EntryValues } from '@/lib/validation';
+import { PhoneInput } from '@/components/PhoneInput';
+import { AddressFields } from '@/components/AddressFields';
+import { CustomFieldInputs } from '@/components/CustomFieldInputs';
+import { MyEntriesList } from '@/components/MyEntriesList';
+import type { CustomFieldDefinition, DuplicateReason, OwnEntries, User as UserType, UserEntry } from '@/types';
 
 interface UserEntryScreenProps {
   user: UserType;
@@ -16,61 +24,79 @@ interface UserEntryScreenProps {
   onLogout: () => void;
 }
 
+const EMPTY_FORM: EntryFormValues = {
+  name: '',
+  mobile: '',
+  phoneCountry: DEFAULT_PHONE_COUNTRY,
+  addressParts: EMPTY_ADDRESS_PARTS,
+  customFields: {},
+};
+
 export function UserEntryScreen({ user, accessToken, onLogout }: UserEntryScreenProps) {
-  const [name, setName] = useState('');
-  const [mobile, setMobile] = useState('');
-  const [address, setAddress] = useState('');
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const resolver = useMemo(() => entryFormResolver(customFields), [customFields]);
+  const form = useForm<EntryFormValues, unknown, EntryValues>({ resolver, defaultValues: EMPTY_FORM });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // Set when the server thinks this person is already on the board
+  const [duplicateReasons, setDuplicateReasons] = useState<DuplicateReason[] | null>(null);
+  const [myEntries, setMyEntries] = useState<OwnEntries | null>(null);
+
+  useEffect(() => {
+    const fetchCustomFields = async () => {
+      try {
+        setCustomFields(await peopleBoardApi.listCustomFields(accessToken));
+      } catch (error) {
+        console.error('Fetch custom fields error:', error);
+        toast.error('Failed to load the form. Refresh the page to try again.');
+      }
+    };
+    fetchCustomFields();
+  }, [accessToken]);
+
+  const fetchMyEntries = useCallback(async () => {
+    try {
+      setMyEntries(await peopleBoardApi.listMyEntries(accessToken));
+    } catch (error) {
+      console.error('Fetch own entries error:', error);
+      toast.error('Failed to load your entries');
+    }
+  }, [accessToken]);
 
-  const validateMobile = (mobile: string) => {
-    const cleaned = mobile.replace(/\D/g, '');
-    return cleaned.length >= 10 && cleaned.length <= 15;
+  useEffect(() => {
+    fetchMyEntries();
+  }, [fetchMyEntries]);
+
+  const setMyEntryList = (entries: UserEntry[]) => {
+    setMyEntries(prev => prev && { ...prev, entries });
   };
 
-  const handleSave = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // `values` have passed the shared entry schema, so the mobile is in E.164
+  const saveEntry = async (values: EntryValues, allowDuplicate: boolean) => {
     setLoading(true);
     setError('');
-
-    if (!validateMobile(mobile)) {
-      setError('Mobile number must be 10-15 digits');
-      setLoading(false);
-      return;
-    }
+    setDuplicateReasons(null);
 
     try {
-      const userEntry = {
-        id: `${Date.now()}-${Math.random()}`,
-        name: name.trim(),
-        mobile: mobile.replace(/\D/g, ''),
-        address: address.trim(),
-        dateAdded: new Date().toISOString(),
-        userId: user.id,
-      };
-
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-f328fde2/user-entries`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify(userEntry),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to save entry');
-      }
+      const entry = await peopleBoardApi.createEntry(accessToken, values, { allowDuplicate });
+      setMyEntries(prev => prev && { ...prev, entries: [entry, ...prev.entries] });
 
       toast.success('Entry saved successfully!');
-      setName('');
-      setMobile('');
-      setAddress('');
+      // Keep the selected phone country and address country for the next entry
+      form.reset({
+        ...EMPTY_FORM,
+        phoneCountry: form.getValues('phoneCountry'),
+        addressParts: { ...EMPTY_ADDRESS_PARTS, country: form.getValues('addressParts.country') },
+      });
     } catch (error) {
+      if (error instanceof DuplicateEntryError) {
+        setDuplicateReasons(error.reasons);
+        return;
+      }
+      if (error instanceof EntryValidationError) {
+        setEntryFieldErrors(form.setError, error.fieldErrors);
+        return;
+      }
       setError(error instanceof Error ? error.message : 'Failed to save entry');
       console.error('Save error:', error);
     } finally {
@@ -78,11 +104,14 @@ export function UserEntryScreen({ user, accessToken, onLogout }: UserEntryScreen
     }
   };
 
+  const handleSave = form.handleSubmit(values => saveEntry(values, false));
+
+  const handleSaveAnyway = form.handleSubmit(values => saveEntry(values, true));
+
   const handleReset = () => {
-    setName('');
-    setMobile('');
-    setAddress('');
+    form.reset(EMPTY_FORM);
     setError('');
+    setDuplicateReasons(null);
   };
 
   return (
@@ -119,83 +148,154 @@ export function UserEntryScreen({ user, accessToken, onLogout }: UserEntryScreen
               <p className="text-sm text-gray-600">Fill in the details below</p>
             </CardHeader>
             <CardContent className="space-y-6">
-              <form onSubmit={handleSave} className="space-y-5">
-                <div className="space-y-2">
-                  <Label htmlFor="name" className="flex items-center gap-2 text-gray-700">
-                    <User className="h-4 w-4" />
-                    Full Name
-                  </Label>
-                  <Input
-                    id="name"
-                    type="text"
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    required
-                    className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
-                    placeholder="Enter your full name"
+              <Form {...form}>
+                <form onSubmit={handleSave} noValidate className="space-y-5">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2 text-gray-700">
+                          <User className="h-4 w-4" />
+                          Full Name
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            {...field}
+                            className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                            placeholder="Enter your full name"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="mobile" className="flex items-center gap-2 text-gray-700">
-                    <Phone className="h-4 w-4" />
-                    Mobile Number
-                  </Label>
-                  <Input
-                    id="mobile"
-                    type="tel"
-                    value={mobile}
-                    onChange={(e) => setMobile(e.target.value)}
-                    required
-                    className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
-                    placeholder="Enter mobile number"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="address" className="flex items-center gap-2 text-gray-700">
-                    <MapPin className="h-4 w-4" />
-                    Address
-                  </Label>
-                  <Textarea
-                    id="address"
-                    value={address}
-                    onChange={(e) => setAddress(e.target.value)}
-                    required
-                    className="min-h-[100px] bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20 resize-none"
-                    placeholder="Enter your complete address"
+
+                  <FormField
+                    control={form.control}
+                    name="mobile"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2 text-gray-700">
+                          <Phone className="h-4 w-4" />
+                          Mobile Number
+                        </FormLabel>
+                        <FormControl>
+                          <PhoneInput
+                            country={form.watch('phoneCountry')}
+                            onCountryChange={(country) => {
+                              form.setValue('phoneCountry', country);
+                              form.clearErrors('mobile');
+                            }}
+                            value={field.value}
+                            onChange={field.onChange}
+                            className="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
-
-                {error && (
-                  <Alert variant="destructive" className="border-red-200 bg-red-50">
-                    <AlertDescription className="text-red-800">{error}</AlertDescription>
-                  </Alert>
-                )}
-
-                <div className="flex gap-3 pt-4">
-                  <Button 
-                    type="submit" 
-                    disabled={loading} 
-                    className="flex-1 h-12 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white shadow-lg"
-                  >
-                    <Save className="h-4 w-4 mr-2" />
-                    {loading ? 'Saving...' : 'Save Entry'}
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={handleReset}
-                    disabled={loading}
-                    className="flex-1 h-12 border-gray-300 hover:bg-gray-50"
-                  >
-                    <RotateCcw className="h-4 w-4 mr-2" />
-                    Reset
-                  </Button>
-                </div>
-              </form>
+
+                  <fieldset className="space-y-3">
+                    <legend className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                      <MapPin className="h-4 w-4" />
+                      Address
+                    </legend>
+                    <AddressFields
+                      control={form.control}
+                      inputClassName="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                    />
+                  </fieldset>
+
+                  {customFields.length > 0 && (
+                    <fieldset className="space-y-3">
+                      <legend className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                        <ClipboardList className="h-4 w-4" />
+                        More Details
+                      </legend>
+                      <CustomFieldInputs
+                        control={form.control}
+                        fields={customFields}
+                        inputClassName="h-12 bg-white border-gray-200 focus:border-blue-500 focus:ring-blue-500/20"
+                      />
+                    </fieldset>
+                  )}
+
+                  {duplicateReasons && (
+                    <Alert className="border-amber-200 bg-amber-50">
+                      <AlertTriangle className="h-4 w-4 text-amber-600" />
+                      <AlertDescription className="text-amber-900 space-y-3">
+                        <p>
+                          Someone with {describeDuplicateReasons(duplicateReasons)} is already on the board.
+                          Check the details before saving another entry.
+                        </p>
+                        <div className="flex gap-2">
+                          <Button
+                            type="button"
+                            size="sm"
+                            onClick={handleSaveAnyway}
+                            disabled={loading}
+                            className="bg-amber-600 hover:bg-amber-700 text-white"
+                          >
+                            Save Anyway
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setDuplicateReasons(null)}
+                            disabled={loading}
+                          >
+                            Keep Editing
+                          </Button>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {error && (
+                    <Alert variant="destructive" className="border-red-200 bg-red-50">
+                      <AlertDescription className="text-red-800">{error}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex gap-3 pt-4">
+                    <Button 
+                      type="submit" 
+                      disabled={loading} 
+                      className="flex-1 h-12 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white shadow-lg"
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      {loading ? 'Saving...' : 'Save Entry'}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleReset}
+                      disabled={loading}
+                      className="flex-1 h-12 border-gray-300 hover:bg-gray-50"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Reset
+                    </Button>
+                  </div>
+                </form>
+              </Form>
             </CardContent>
           </Card>
+
+          <div className="mt-6">
+            <MyEntriesList
+              accessToken={accessToken}
+              entries={myEntries?.entries ?? []}
+              deleteWindowHours={myEntries?.deleteWindowHours ?? 0}
+              loading={myEntries === null}
+              customFields={customFields}
+              onChange={setMyEntryList}
+            />
+          </div>
         </div>
       </div>
     </div>
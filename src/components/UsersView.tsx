@@ -0,0 +1,427 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { KeyRound, Loader2, Mail, MoreVertical, Send, Shield, UserCheck, UserPlus, UserX, UsersRound, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { peopleBoardApi } from '@/lib/api';
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, appUrl, setPasswordRedirectUrl } from '@/lib/users';
+import { InviteUserDialog } from '@/components/InviteUserDialog';
+import { AuthLinkDialog } from '@/components/AuthLinkDialog';
+import type { ManagedUser, PendingInvite, Role } from '@/types';
+
+interface UsersViewProps {
+  accessToken: string | null;
+  currentUserId: string;
+}
+
+// Changes that lock someone out or change what they can do are confirmed first.
+type PendingAction =
+  | { kind: 'role'; user: ManagedUser; role: Role }
+  | { kind: 'disable'; user: ManagedUser };
+
+type ShownLink = { title: string; description: string; link: string | null };
+
+export function UsersView({ accessToken, currentUserId }: UsersViewProps) {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [shownLink, setShownLink] = useState<ShownLink | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<PendingInvite | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [nextUsers, nextInvites] = await Promise.all([
+        peopleBoardApi.listUsers(accessToken),
+        peopleBoardApi.listInvites(accessToken),
+      ]);
+      setUsers(nextUsers);
+      setInvites(nextInvites);
+    } catch (error) {
+      console.error('Fetch users error:', error);
+      toast.error('Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers(prev => prev.map(user => (user.id === updated.id ? updated : user)));
+  };
+
+  // Runs an action for one account or invite, whose row shows a spinner meanwhile.
+  const runFor = async (id: string, action: () => Promise<void>, fallbackError: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Users action error:', error);
+      toast.error(error instanceof Error ? error.message : fallbackError);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvited = (invite: PendingInvite) => {
+    // A new invite replaces any expired one to the same address
+    setInvites(prev => [invite, ...prev.filter(other => other.email !== invite.email)]);
+    toast.success(`Invite sent to ${invite.email}`);
+  };
+
+  const handleResendInvite = (invite: PendingInvite) => runFor(invite.id, async () => {
+    const updated = await peopleBoardApi.resendInvite(accessToken, invite.id, appUrl());
+    setInvites(prev => prev.map(other => (other.id === updated.id ? updated : other)));
+    toast.success(`Invite resent to ${invite.email}`);
+  }, 'Failed to resend invite');
+
+  const handleRevokeInvite = (invite: PendingInvite) => runFor(invite.id, async () => {
+    await peopleBoardApi.revokeInvite(accessToken, invite.id);
+    setInvites(prev => prev.filter(other => other.id !== invite.id));
+    toast.success(`Invite to ${invite.email} revoked`);
+  }, 'Failed to revoke invite');
+
+  const handleSetRole = (user: ManagedUser, role: Role) => runFor(user.id, async () => {
+    const updated = await peopleBoardApi.setUserRole(accessToken, user.id, role);
+    replaceUser(updated);
+    toast.success(`${updated.email} now has the ${ROLE_LABELS[updated.role]} role`);
+  }, 'Failed to change role');
+
+  const handleSetDisabled = (user: ManagedUser, disabled: boolean) => runFor(user.id, async () => {
+    replaceUser(await peopleBoardApi.setUserDisabled(accessToken, user.id, disabled));
+    toast.success(`${user.email} ${disabled ? 'disabled' : 're-enabled'}`);
+  }, disabled ? 'Failed to disable user' : 'Failed to re-enable user');
+
+  const handleResetPassword = (user: ManagedUser) => runFor(user.id, async () => {
+    const link = await peopleBoardApi.createPasswordResetLink(accessToken, user.id, setPasswordRedirectUrl());
+    setShownLink({
+      title: 'Password Reset Link',
+      description: `Send this link to ${user.email}. It signs them in once so they can choose a new password.`,
+      link,
+    });
+  }, 'Failed to create a password reset link');
+
+  const confirmPendingAction = () => {
+    if (!pendingAction) return;
+    if (pendingAction.kind === 'role') {
+      handleSetRole(pendingAction.user, pendingAction.role);
+    } else {
+      handleSetDisabled(pendingAction.user, true);
+    }
+    setPendingAction(null);
+  };
+
+  const statusBadge = (user: ManagedUser) => {
+    if (user.disabled) {
+      return <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">Disabled</Badge>;
+    }
+    return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Active</Badge>;
+  };
+
+  const actionsMenu = (user: ManagedUser) => {
+    const isSelf = user.id === currentUserId;
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={busyId === user.id}>
+            {busyId === user.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <MoreVertical className="h-4 w-4" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger disabled={isSelf}>
+              <Shield className="h-4 w-4 mr-2" />
+              Change Role
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuRadioGroup
+                value={user.role}
+                onValueChange={(value) => {
+                  if (value !== user.role) setPendingAction({ kind: 'role', user, role: value as Role });
+                }}
+              >
+                {ROLES.map(role => (
+                  <DropdownMenuRadioItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onClick={() => handleResetPassword(user)}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Reset Password
+          </DropdownMenuItem>
+          {user.disabled ? (
+            <DropdownMenuItem onClick={() => handleSetDisabled(user, false)}>
+              <UserCheck className="h-4 w-4 mr-2" />
+              Re-enable
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem
+              disabled={isSelf}
+              onClick={() => setPendingAction({ kind: 'disable', user })}
+              className="text-destructive focus:text-destructive"
+            >
+              <UserX className="h-4 w-4 mr-2" />
+              Disable
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  const pendingUser = pendingAction?.user;
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <CardTitle className="text-lg">Users</CardTitle>
+            <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">
+              {users.length} {users.length === 1 ? 'account' : 'accounts'}
+            </Badge>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => setIsInviteDialogOpen(true)}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite User
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Everyone who can sign in. Users only add people to the board; viewers, editors and exporters also work with it, and super admins manage it and these accounts.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading && users.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : users.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <UsersRound className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">No Accounts</h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              Invite the people who add entries or help manage the board.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Desktop Table */}
+            <div className="hidden md:block overflow-hidden rounded-lg border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold text-foreground">Email</TableHead>
+                    <TableHead className="font-semibold text-foreground">Name</TableHead>
+                    <TableHead className="font-semibold text-foreground">Role</TableHead>
+                    <TableHead className="font-semibold text-foreground">Status</TableHead>
+                    <TableHead className="font-semibold text-foreground">Last Sign-in</TableHead>
+                    <TableHead className="font-semibold text-foreground text-right">Entries</TableHead>
+                    <TableHead className="font-semibold text-foreground w-20">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map(user => (
+                    <TableRow key={user.id} className="hover:bg-muted/20">
+                      <TableCell className="font-medium">
+                        {user.email}
+                        {user.id === currentUserId && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{user.name || '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{ROLE_LABELS[user.role]}</Badge>
+                      </TableCell>
+                      <TableCell>{statusBadge(user)}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {user.lastSignInAt ? new Date(user.lastSignInAt).toLocaleString() : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right">{user.entryCount}</TableCell>
+                      <TableCell>{actionsMenu(user)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Mobile Cards */}
+            <div className="md:hidden space-y-3">
+              {users.map(user => (
+                <div key={`${user.id}-mobile`} className="flex items-start justify-between gap-3 p-4 rounded-lg border border-border/50">
+                  <div className="min-w-0 space-y-1">
+                    <h3 className="font-medium text-foreground break-all">{user.email}</h3>
+                    {user.name && <p className="text-sm text-muted-foreground">{user.name}</p>}
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="secondary">{ROLE_LABELS[user.role]}</Badge>
+                      {statusBadge(user)}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Last sign-in: {user.lastSignInAt ? new Date(user.lastSignInAt).toLocaleString() : 'Never'} ·{' '}
+                      {user.entryCount} {user.entryCount === 1 ? 'entry' : 'entries'}
+                    </p>
+                  </div>
+                  {actionsMenu(user)}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {invites.length > 0 && (
+          <div className="mt-8 space-y-3">
+            <div className="flex items-center gap-3">
+              <h3 className="font-semibold text-foreground">Pending Invites</h3>
+              <Badge variant="secondary" className="text-sm bg-slate-100 text-slate-700">{invites.length}</Badge>
+            </div>
+            {invites.map(invite => (
+              <div
+                key={invite.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-border/50"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium text-foreground break-all">{invite.email}</span>
+                    <Badge variant="secondary">{ROLE_LABELS[invite.role]}</Badge>
+                    {invite.expired && (
+                      <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">Expired</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Sent {new Date(invite.sentAt).toLocaleString()} by {invite.invitedByEmail} ·{' '}
+                    {invite.expired ? 'expired' : 'expires'} {new Date(invite.expiresAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResendInvite(invite)}
+                    disabled={busyId === invite.id}
+                  >
+                    {busyId === invite.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4 mr-2" />
+                    )}
+                    Resend
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRevokeTarget(invite)}
+                    disabled={busyId === invite.id}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <InviteUserDialog
+        isOpen={isInviteDialogOpen}
+        onClose={() => setIsInviteDialogOpen(false)}
+        onInvited={handleInvited}
+        accessToken={accessToken}
+      />
+
+      <AuthLinkDialog
+        title={shownLink?.title ?? ''}
+        description={shownLink?.description ?? ''}
+        link={shownLink?.link ?? null}
+        isOpen={shownLink !== null}
+        onClose={() => setShownLink(null)}
+      />
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.kind === 'disable'
+                ? `Disable ${pendingUser?.email}?`
+                : pendingAction && `Change the role of ${pendingUser?.email} to ${ROLE_LABELS[pendingAction.role]}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.kind === 'disable'
+                ? 'They can no longer sign in or use the board. Their entries stay, and the account can be re-enabled later.'
+                : pendingAction && `${ROLE_LABELS[pendingAction.role]}s: ${ROLE_DESCRIPTIONS[pendingAction.role]}`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPendingAction}
+              className={pendingAction?.kind === 'disable' ? 'bg-destructive text-white hover:bg-destructive/90' : ''}
+            >
+              {pendingAction?.kind === 'disable' ? 'Disable' : 'Change Role'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke the invite to {revokeTarget?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The link in their email stops working. You can invite them again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (revokeTarget) handleRevokeInvite(revokeTarget);
+                setRevokeTarget(null);
+              }}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              Revoke Invite
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
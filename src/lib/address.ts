@@ -0,0 +1,9 @@
+// The server formats addresses with the same module, so one-line addresses
+// shown here match what is stored and searched.
+export {
+  ADDRESS_FIELDS,
+  EMPTY_ADDRESS_PARTS,
+  formatAddress,
+  sameAddressParts,
+  toAddressParts,
+} from '../../supabase-functions/server/address';
@@ -0,0 +1,591 @@
+import { projectId, publicAnonKey } from '@/utils/supabase/info';
+import type { EntryFieldErrors } from '@/lib/validation';
+import type {
+  AcceptInviteInput,
+  AuditPage,
+  AuditQuery,
+  BatchAction,
+  BatchSelection,
+  CustomFieldDefinition,
+  CustomFieldInput,
+  DuplicatePair,
+  DuplicateReason,
+  EntryLocations,
+  EntryOwner,
+  EntryPage,
+  EntryQuery,
+  EntryStats,
+  EntryVersion,
+  ImportResult,
+  InviteDetails,
+  InviteUserInput,
+  ManagedUser,
+  MergeRequest,
+  OwnEntries,
+  PendingInvite,
+  Role,
+  SavedView,
+  SavedViewInput,
+  Tag,
+  TagInput,
+  User,
+  UserEntry,
+  UserEntryInput,
+} from '@/types';
+
+export const API_BASE_URL = (
+  process.env.NEXT_PUBLIC_API_BASE_URL ||
+  `https://${projectId}.supabase.co/functions/v1/make-server-f328fde2`
+).replace(/\/+$/, '');
+
+export class ApiError extends Error {
+  // `data` is the parsed error response body, if any
+  constructor(message: string, readonly status: number, readonly data: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Thrown when the server rejects entry input; `fieldErrors` has a message per
+// invalid field.
+export class EntryValidationError extends ApiError {
+  constructor(message: string, readonly fieldErrors: EntryFieldErrors) {
+    super(message, 400);
+    this.name = 'EntryValidationError';
+  }
+}
+
+// Thrown when an update was based on an outdated copy of the entry.
+export class EntryConflictError extends ApiError {
+  constructor(message: string, readonly entry: UserEntry) {
+    super(message, 409);
+    this.name = 'EntryConflictError';
+  }
+}
+
+// Thrown when a new entry looks like one already on the board.
+export class DuplicateEntryError extends ApiError {
+  constructor(message: string, readonly reasons: DuplicateReason[]) {
+    super(message, 409);
+    this.name = 'DuplicateEntryError';
+  }
+}
+
+export type SignupInput = {
+  email: string;
+  password: string;
+  name: string;
+};
+
+type RequestOptions = {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Falls back to the public anon key, which the functions gateway accepts
+  // for unauthenticated routes such as /signup.
+  accessToken?: string | null;
+  body?: unknown;
+  fallbackError: string;
+};
+
+// Lists are sent comma-separated, e.g. `tags=vip,volunteer`.
+const toQueryString = (query: EntryQuery | AuditQuery) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    const text = Array.isArray(value) ? value.join(',') : value;
+    if (text !== undefined && text !== null && text !== '') {
+      params.set(key, String(text));
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+async function request<T>(path: string, { method = 'GET', accessToken, body, fallbackError }: RequestOptions): Promise<T> {
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${accessToken || publicAnonKey}`,
+  };
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    if (response.status === 400 && data?.fieldErrors) {
+      throw new EntryValidationError(data.error || fallbackError, data.fieldErrors);
+    }
+    throw new ApiError(data?.error || `HTTP ${response.status}: ${fallbackError}`, response.status, data);
+  }
+
+  return data as T;
+}
+
+// PUT of an entry's new values; a 409 with the server's copy means someone
+// else changed it first.
+async function putEntry(path: string, accessToken: string | null, input: UserEntryInput, dateModified: string | null) {
+  try {
+    const { entry } = await request<{ entry: UserEntry }>(path, {
+      method: 'PUT',
+      accessToken,
+      body: { ...input, dateModified },
+      fallbackError: 'Failed to update entry',
+    });
+    return entry;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 409) {
+      const { entry } = (error.data ?? {}) as { entry?: UserEntry };
+      if (entry) throw new EntryConflictError(error.message, entry);
+    }
+    throw error;
+  }
+}
+
+export const peopleBoardApi = {
+  listEntries(accessToken: string | null, query: EntryQuery = {}) {
+    return request<EntryPage>(`/user-entries${toQueryString(query)}`, {
+      accessToken,
+      fallbackError: 'Failed to fetch entries',
+    });
+  },
+
+  async getEntry(accessToken: string | null, id: string) {
+    const { entry } = await request<{ entry: UserEntry }>(`/user-entries/${encodeURIComponent(id)}`, {
+      accessToken,
+      fallbackError: 'Failed to fetch entry',
+    });
+    return entry;
+  },
+
+  getStats(accessToken: string | null) {
+    return request<EntryStats>('/user-entries/stats', {
+      accessToken,
+      fallbackError: 'Failed to fetch stats',
+    });
+  },
+
+  // Throws a DuplicateEntryError for likely duplicates unless `allowDuplicate` is set.
+  async createEntry(accessToken: string | null, input: UserEntryInput, { allowDuplicate = false } = {}) {
+    try {
+      const { entry } = await request<{ entry: UserEntry }>('/user-entries', {
+        method: 'POST',
+        accessToken,
+        body: { ...input, allowDuplicate },
+        fallbackError: 'Failed to save entry',
+      });
+      return entry;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        const { reasons } = (error.data ?? {}) as { reasons?: DuplicateReason[] };
+        if (reasons) throw new DuplicateEntryError(error.message, reasons);
+      }
+      throw error;
+    }
+  },
+
+  // `dateModified` is the value from the copy being edited; the server
+  // rejects the update with an EntryConflictError if it has changed since.
+  updateEntry(accessToken: string | null, id: string, input: UserEntryInput, dateModified: string | null) {
+    return putEntry(`/user-entries/${encodeURIComponent(id)}`, accessToken, input, dateModified);
+  },
+
+  // The signed-in user's own entries. Updates work like updateEntry, except
+  // that tags are left as they are.
+  async listEntryOwners(accessToken: string | null) {
+    const { owners } = await request<{ owners: EntryOwner[] }>('/user-entries/owners', {
+      accessToken,
+      fallbackError: 'Failed to fetch accounts',
+    });
+    return owners;
+  },
+
+  listMyEntries(accessToken: string | null) {
+    return request<OwnEntries>('/user-entries/mine', {
+      accessToken,
+      fallbackError: 'Failed to fetch your entries',
+    });
+  },
+
+  updateMyEntry(accessToken: string | null, id: string, input: UserEntryInput, dateModified: string | null) {
+    return putEntry(`/user-entries/mine/${encodeURIComponent(id)}`, accessToken, input, dateModified);
+  },
+
+  // Only allowed for a while after the entry was added; see OwnEntries.deleteWindowHours
+  async deleteMyEntry(accessToken: string | null, id: string) {
+    const { entry } = await request<{ entry: UserEntry }>(`/user-entries/mine/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      accessToken,
+      fallbackError: 'Failed to delete entry',
+    });
+    return entry;
+  },
+
+  // Moves the entry to the trash
+  async deleteEntry(accessToken: string | null, id: string) {
+    const { entry } = await request<{ entry: UserEntry }>(`/user-entries/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      accessToken,
+      fallbackError: 'Failed to delete entry',
+    });
+    return entry;
+  },
+
+  async restoreEntry(accessToken: string | null, id: string) {
+    const { entry } = await request<{ entry: UserEntry }>(`/user-entries/${encodeURIComponent(id)}/restore`, {
+      method: 'POST',
+      accessToken,
+      fallbackError: 'Failed to restore entry',
+    });
+    return entry;
+  },
+
+  async purgeEntry(accessToken: string | null, id: string) {
+    await request<{ success: boolean }>(`/user-entries/${encodeURIComponent(id)}/purge`, {
+      method: 'DELETE',
+      accessToken,
+      fallbackError: 'Failed to permanently delete entry',
+    });
+  },
+
+  batchEntries(accessToken: string | null, selection: BatchSelection, action: BatchAction) {
+    return request<{ success: boolean; affected: number }>('/user-entries/batch', {
+      method: 'POST',
+      accessToken,
+      body: { ...action, selection },
+      fallbackError: 'Failed to update entries',
+    });
+  },
+
+  // Every entry in `selection` at once, sorted by `sort`, for writing to a file
+  async exportEntries(accessToken: string | null, selection: BatchSelection, sort?: string) {
+    const { entries } = await request<{ entries: UserEntry[] }>('/user-entries/export', {
+      method: 'POST',
+      accessToken,
+      body: { selection, sort },
+      fallbackError: 'Failed to export entries',
+    });
+    return entries;
+  },
+
+  async importEntries(accessToken: string | null, entries: UserEntryInput[]) {
+    const { results } = await request<{ results: ImportResult[] }>('/user-entries/import', {
+      method: 'POST',
+      accessToken,
+      body: { entries },
+      fallbackError: 'Failed to import entries',
+    });
+    return results;
+  },
+
+  async findExistingMobiles(accessToken: string | null, mobiles: string[]) {
+    const { existing } = await request<{ existing: string[] }>('/user-entries/existing-mobiles', {
+      method: 'POST',
+      accessToken,
+      body: { mobiles },
+      fallbackError: 'Failed to check for duplicates',
+    });
+    return existing;
+  },
+
+  listEntryLocations(accessToken: string | null) {
+    return request<EntryLocations>('/user-entries/locations', {
+      accessToken,
+      fallbackError: 'Failed to fetch locations',
+    });
+  },
+
+  // Looks up the next batch of entries without a location
+  geocodeMissingLocations(accessToken: string | null) {
+    return request<{ located: number; remaining: number }>('/user-entries/locations/geocode', {
+      method: 'POST',
+      accessToken,
+      fallbackError: 'Failed to locate entries',
+    });
+  },
+
+  async listDuplicates(accessToken: string | null) {
+    const { pairs } = await request<{ pairs: DuplicatePair[] }>('/user-entries/duplicates', {
+      accessToken,
+      fallbackError: 'Failed to fetch duplicates',
+    });
+    return pairs;
+  },
+
+  // Marks two entries as not being duplicates of each other
+  async dismissDuplicate(accessToken: string | null, ids: [string, string]) {
+    await request<{ success: boolean }>('/user-entries/duplicates/dismiss', {
+      method: 'POST',
+      accessToken,
+      body: { ids },
+      fallbackError: 'Failed to dismiss duplicate',
+    });
+  },
+
+  async mergeEntries(accessToken: string | null, merge: MergeRequest) {
+    const { entry } = await request<{ entry: UserEntry }>('/user-entries/merge', {
+      method: 'POST',
+      accessToken,
+      body: merge,
+      fallbackError: 'Failed to merge entries',
+    });
+    return entry;
+  },
+
+  async listCustomFields(accessToken: string | null) {
+    const { fields } = await request<{ fields: CustomFieldDefinition[] }>('/custom-fields', {
+      accessToken,
+      fallbackError: 'Failed to fetch custom fields',
+    });
+    return fields;
+  },
+
+  async createCustomField(accessToken: string | null, input: CustomFieldInput) {
+    const { field } = await request<{ field: CustomFieldDefinition }>('/custom-fields', {
+      method: 'POST',
+      accessToken,
+      body: input,
+      fallbackError: 'Failed to add custom field',
+    });
+    return field;
+  },
+
+  // The field's key and type can't change
+  async updateCustomField(accessToken: string | null, key: string, input: CustomFieldInput) {
+    const { field } = await request<{ field: CustomFieldDefinition }>(`/custom-fields/${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      accessToken,
+      body: input,
+      fallbackError: 'Failed to update custom field',
+    });
+    return field;
+  },
+
+  // `keys` must list every field
+  async reorderCustomFields(accessToken: string | null, keys: string[]) {
+    const { fields } = await request<{ fields: CustomFieldDefinition[] }>('/custom-fields/order', {
+      method: 'PUT',
+      accessToken,
+      body: { keys },
+      fallbackError: 'Failed to reorder custom fields',
+    });
+    return fields;
+  },
+
+  // Saved values stay on the entries but are no longer shown
+  async deleteCustomField(accessToken: string | null, key: string) {
+    await request<{ success: boolean }>(`/custom-fields/${encodeURIComponent(key)}`, {
+      method: 'DELETE',
+      accessToken,
+      fallbackError: 'Failed to delete custom field',
+    });
+  },
+
+  async listTags(accessToken: string | null) {
+    const { tags } = await request<{ tags: Tag[] }>('/tags', {
+      accessToken,
+      fallbackError: 'Failed to fetch tags',
+    });
+    return tags;
+  },
+
+  async createTag(accessToken: string | null, input: TagInput) {
+    const { tag } = await request<{ tag: Tag }>('/tags', {
+      method: 'POST',
+      accessToken,
+      body: input,
+      fallbackError: 'Failed to add tag',
+    });
+    return tag;
+  },
+
+  // The tag's id stays the same, so entries keep it
+  async updateTag(accessToken: string | null, id: string, input: TagInput) {
+    const { tag } = await request<{ tag: Tag }>(`/tags/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      accessToken,
+      body: input,
+      fallbackError: 'Failed to update tag',
+    });
+    return tag;
+  },
+
+  // Also removes the tag from every entry; returns how many had it
+  async deleteTag(accessToken: string | null, id: string) {
+    const { affected } = await request<{ success: boolean; affected: number }>(`/tags/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      accessToken,
+      fallbackError: 'Failed to delete tag',
+    });
+    return affected;
+  },
+
+  // Views are the admin's own and those shared by others
+  listSavedViews(accessToken: string | null) {
+    return request<{ views: SavedView[]; pinnedIds: string[] }>('/saved-views', {
+      accessToken,
+      fallbackError: 'Failed to fetch saved views',
+    });
+  },
+
+  async createSavedView(accessToken: string | null, input: SavedViewInput) {
+    const { view } = await request<{ view: SavedView }>('/saved-views', {
+      method: 'POST',
+      accessToken,
+      body: input,
+      fallbackError: 'Failed to save view',
+    });
+    return view;
+  },
+
+  // Only the view's owner can update it
+  async updateSavedView(accessToken: string | null, id: string, input: SavedViewInput) {
+    const { view } = await request<{ view: SavedView }>(`/saved-views/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      accessToken,
+      body: input,
+      fallbackError: 'Failed to update view',
+    });
+    return view;
+  },
+
+  async deleteSavedView(accessToken: string | null, id: string) {
+    await request<{ success: boolean }>(`/saved-views/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      accessToken,
+      fallbackError: 'Failed to delete view',
+    });
+  },
+
+  // `ids` replaces the admin's pinned views, in tab order
+  async setPinnedViews(accessToken: string | null, ids: string[]) {
+    const { pinnedIds } = await request<{ pinnedIds: string[] }>('/saved-views/pins', {
+      method: 'PUT',
+      accessToken,
+      body: { ids },
+      fallbackError: 'Failed to update pinned views',
+    });
+    return pinnedIds;
+  },
+
+  async listUsers(accessToken: string | null) {
+    const { users } = await request<{ users: ManagedUser[] }>('/users', {
+      accessToken,
+      fallbackError: 'Failed to fetch users',
+    });
+    return users;
+  },
+
+  async setUserRole(accessToken: string | null, id: string, role: Role) {
+    const { user } = await request<{ user: ManagedUser }>(`/users/${encodeURIComponent(id)}/role`, {
+      method: 'PUT',
+      accessToken,
+      body: { role },
+      fallbackError: 'Failed to change role',
+    });
+    return user;
+  },
+
+  async setUserDisabled(accessToken: string | null, id: string, disabled: boolean) {
+    const { user } = await request<{ user: ManagedUser }>(
+      `/users/${encodeURIComponent(id)}/${disabled ? 'disable' : 'enable'}`,
+      {
+        method: 'POST',
+        accessToken,
+        fallbackError: disabled ? 'Failed to disable user' : 'Failed to re-enable user',
+      }
+    );
+    return user;
+  },
+
+  // A one-time link for choosing a new password; null when the server can't
+  // make links (the local development server)
+  async createPasswordResetLink(accessToken: string | null, id: string, redirectTo: string) {
+    const { link } = await request<{ link: string | null }>(`/users/${encodeURIComponent(id)}/reset-password`, {
+      method: 'POST',
+      accessToken,
+      body: { redirectTo },
+      fallbackError: 'Failed to create a password reset link',
+    });
+    return link;
+  },
+
+  async listInvites(accessToken: string | null) {
+    const { invites } = await request<{ invites: PendingInvite[] }>('/invites', {
+      accessToken,
+      fallbackError: 'Failed to fetch invites',
+    });
+    return invites;
+  },
+
+  // Emails a one-time link to `appUrl` that opens the invite acceptance screen
+  async createInvite(accessToken: string | null, input: InviteUserInput, appUrl: string) {
+    const { invite } = await request<{ invite: PendingInvite }>('/invites', {
+      method: 'POST',
+      accessToken,
+      body: { ...input, appUrl },
+      fallbackError: 'Failed to send invite',
+    });
+    return invite;
+  },
+
+  // Emails a new link with a new expiry; the previous link stops working
+  async resendInvite(accessToken: string | null, id: string, appUrl: string) {
+    const { invite } = await request<{ invite: PendingInvite }>(`/invites/${encodeURIComponent(id)}/resend`, {
+      method: 'POST',
+      accessToken,
+      body: { appUrl },
+      fallbackError: 'Failed to resend invite',
+    });
+    return invite;
+  },
+
+  async revokeInvite(accessToken: string | null, id: string) {
+    await request<{ success: boolean }>(`/invites/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      accessToken,
+      fallbackError: 'Failed to revoke invite',
+    });
+  },
+
+  listAuditEvents(accessToken: string | null, query: AuditQuery = {}) {
+    return request<AuditPage>(`/audit${toQueryString(query)}`, {
+      accessToken,
+      fallbackError: 'Failed to fetch the audit log',
+    });
+  },
+
+  async listEntryVersions(accessToken: string | null, id: string) {
+    const { versions } = await request<{ versions: EntryVersion[] }>(`/user-entries/${encodeURIComponent(id)}/versions`, {
+      accessToken,
+      fallbackError: 'Failed to fetch entry history',
+    });
+    return versions;
+  },
+
+  signup(input: SignupInput) {
+    return request<{ user: User }>('/signup', {
+      method: 'POST',
+      body: input,
+      fallbackError: 'Signup failed',
+    });
+  },
+
+  async getInvite(token: string) {
+    const { invite } = await request<{ invite: InviteDetails }>(`/signup/invite/${encodeURIComponent(token)}`, {
+      fallbackError: 'Failed to load the invite',
+    });
+    return invite;
+  },
+
+  acceptInvite(input: AcceptInviteInput) {
+    return request<{ user: User }>('/signup/invite', {
+      method: 'POST',
+      body: input,
+      fallbackError: 'Failed to accept the invite',
+    });
+  },
+};
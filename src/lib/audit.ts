@@ -0,0 +1,55 @@
+import { formatAddress } from '@/lib/address';
+import type { AddressParts, AuditAction, AuditChange } from '@/types';
+
+export const AUDIT_ACTION_STYLES: Record<AuditAction, { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-emerald-100 text-emerald-800' },
+  update: { label: 'Updated', className: 'bg-blue-100 text-blue-800' },
+  delete: { label: 'Deleted', className: 'bg-amber-100 text-amber-800' },
+  restore: { label: 'Restored', className: 'bg-teal-100 text-teal-800' },
+  purge: { label: 'Purged', className: 'bg-red-100 text-red-800' },
+  reassign: { label: 'Reassigned', className: 'bg-purple-100 text-purple-800' },
+  merge: { label: 'Merged', className: 'bg-indigo-100 text-indigo-800' },
+};
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  mobile: 'Mobile',
+  address: 'Address',
+  addressParts: 'Address Parts',
+  customFields: 'Custom Fields',
+  tags: 'Tags',
+  userId: 'Owner',
+  deletedAt: 'Deleted At',
+  mergedInto: 'Merged Into',
+};
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+// Custom fields are shown by their key, e.g. `department`.
+export const auditFieldLabel = (field: string) =>
+  AUDIT_FIELD_LABELS[field] ?? (field.startsWith(CUSTOM_FIELD_PREFIX) ? field.slice(CUSTOM_FIELD_PREFIX.length) : field);
+
+// Custom field values are recorded as one object; this splits it into a
+// change per value that differs.
+export function splitCustomFieldChanges(changes: AuditChange[]): AuditChange[] {
+  return changes.flatMap(change => {
+    if (change.field !== 'customFields') return [change];
+    const before = (change.before ?? {}) as Record<string, unknown>;
+    const after = (change.after ?? {}) as Record<string, unknown>;
+    return Object.keys({ ...before, ...after })
+      .filter(key => before[key] !== after[key])
+      .map(key => ({ field: `${CUSTOM_FIELD_PREFIX}${key}`, before: before[key] ?? null, after: after[key] ?? null }));
+  });
+}
+
+// Once custom fields are split, tags (a list of ids) and address parts are
+// the only object values.
+export const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return typeof value === 'object' ? formatAddress(value as AddressParts) : String(value);
+};
+
+export const formatAuditActor = (event: { actorId: string; actorEmail: string }) =>
+  event.actorId === 'system' ? 'System' : event.actorEmail || event.actorId;
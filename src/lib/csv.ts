@@ -0,0 +1,64 @@
+// RFC 4180 style CSV helpers: fields may be quoted, quotes are escaped by
+// doubling them, and quoted fields may contain commas and newlines.
+
+// One parsed row and the 1-based line of the file it starts on; a quoted
+// field spanning lines makes later rows start further down.
+export type CSVRow = { line: number; cells: string[] };
+
+export function parseCSVRows(text: string): CSVRow[] {
+  const rows: CSVRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  // Drop blank lines
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+}
+
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCSV(rows: string[][]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\n');
+}
@@ -0,0 +1,24 @@
+// The server checks custom field values with the same module, so the forms
+// accept exactly what the API does.
+export {
+  CUSTOM_FIELD_TYPES,
+  LENGTH_LIMITED_TYPES,
+  formatCustomFieldValue,
+  parseCustomFieldValue,
+} from '../../supabase-functions/server/custom_field_schema';
+
+import type { CustomFieldDefinition, CustomFieldValue } from '@/types';
+
+// Custom field values as held by the entry forms: numbers as typed and
+// checkboxes as booleans.
+export type CustomFieldFormValues = Record<string, string | boolean>;
+
+// Form values for `fields`, filled from an entry's saved values if given.
+export function toCustomFieldFormValues(
+  fields: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue> = {}
+): CustomFieldFormValues {
+  return Object.fromEntries(
+    fields.map(({ key, type }) => [key, type === 'checkbox' ? values[key] === true : String(values[key] ?? '')])
+  );
+}
@@ -0,0 +1,17 @@
+import type { DuplicateReason } from '@/types';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  mobile: 'Same mobile number',
+  name: 'Similar name',
+  address: 'Similar address',
+};
+
+const DUPLICATE_REASON_PHRASES: Record<DuplicateReason, string> = {
+  mobile: 'the same mobile number',
+  name: 'a similar name',
+  address: 'a similar address',
+};
+
+// e.g. "a similar name and a similar address"
+export const describeDuplicateReasons = (reasons: DuplicateReason[]) =>
+  reasons.map(reason => DUPLICATE_REASON_PHRASES[reason]).join(' and ');
@@ -0,0 +1,126 @@
+import { toCSV } from '@/lib/csv';
+import { formatCustomFieldValue } from '@/lib/customFields';
+import { entryTags } from '@/lib/tags';
+import type { AddressParts, CustomFieldDefinition, Tag, UserEntry } from '@/types';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+type AddressColumn = keyof Pick<AddressParts, 'city' | 'state' | 'postalCode' | 'country'>;
+
+type CustomFieldColumn = `customFields.${string}`;
+
+export type ExportColumn =
+  | Exclude<keyof UserEntry, 'addressParts' | 'location' | 'customFields'>
+  | AddressColumn
+  | CustomFieldColumn;
+
+export type ExportOptions = {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  // Definitions for the custom field columns
+  customFields: CustomFieldDefinition[];
+  // For the tag names in the tags column
+  tags: Tag[];
+};
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+];
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'name', label: 'Name' },
+  { key: 'mobile', label: 'Mobile No' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'postalCode', label: 'Postal Code' },
+  { key: 'country', label: 'Country' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'dateAdded', label: 'Date Added' },
+  { key: 'dateModified', label: 'Date Modified' },
+  { key: 'userId', label: 'User ID' },
+];
+
+// The built-in columns followed by one per custom field.
+export const exportColumns = (customFields: CustomFieldDefinition[]): { key: ExportColumn; label: string }[] => [
+  ...EXPORT_COLUMNS,
+  ...customFields.map(({ key, label }) => ({ key: `customFields.${key}` as const, label })),
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['name', 'mobile', 'address', 'dateAdded'];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+};
+
+// Dates are stored as ISO 8601 strings and exported unchanged so the output
+// does not depend on the browser's locale.
+const ADDRESS_COLUMNS: ExportColumn[] = ['city', 'state', 'postalCode', 'country'];
+
+const isAddressColumn = (column: ExportColumn): column is AddressColumn => ADDRESS_COLUMNS.includes(column);
+
+const isCustomFieldColumn = (column: ExportColumn): column is CustomFieldColumn => column.startsWith('customFields.');
+
+// Address columns are empty for entries saved before addresses had parts.
+// Tags are exported by name.
+const columnValue = (entry: UserEntry, column: ExportColumn, tags: Tag[]) => {
+  if (isAddressColumn(column)) return entry.addressParts?.[column] || undefined;
+  if (isCustomFieldColumn(column)) return entry.customFields?.[column.slice('customFields.'.length)];
+  if (column === 'tags') return entryTags(entry.tags, tags).map(tag => tag.name);
+  return entry[column];
+};
+
+// Spreadsheets show custom checkboxes as Yes/No and tags as one list
+const cellValue = (entry: UserEntry, column: ExportColumn, tags: Tag[]) => {
+  const value = columnValue(entry, column, tags);
+  return Array.isArray(value) ? value.join(', ') : formatCustomFieldValue(value);
+};
+
+const orderedColumns = (columns: ExportColumn[], customFields: CustomFieldDefinition[]) =>
+  exportColumns(customFields).filter(({ key }) => columns.includes(key));
+
+async function buildFile(entries: UserEntry[], { format, columns, customFields, tags }: ExportOptions): Promise<Blob> {
+  const selected = orderedColumns(columns, customFields);
+
+  if (format === 'json') {
+    const rows = entries.map(entry =>
+      Object.fromEntries(selected.map(({ key }) => [key, columnValue(entry, key, tags) ?? null]))
+    );
+    return new Blob([JSON.stringify(rows, null, 2)], { type: MIME_TYPES.json });
+  }
+
+  const header = selected.map(({ label }) => label);
+  const rows = entries.map(entry => selected.map(({ key }) => cellValue(entry, key, tags)));
+
+  if (format === 'xlsx') {
+    // Loaded on demand to keep the spreadsheet writer out of the main bundle
+    const { default: writeXlsxFile } = await import('write-excel-file/browser');
+    return writeXlsxFile([
+      header.map(value => ({ value, fontWeight: 'bold' as const })),
+      ...rows.map(row => row.map(value => ({ value }))),
+    ]).toBlob();
+  }
+
+  return new Blob([toCSV([header, ...rows])], { type: MIME_TYPES.csv });
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+export async function exportEntries(entries: UserEntry[], options: ExportOptions) {
+  const blob = await buildFile(entries, options);
+  downloadBlob(blob, `people-board-${new Date().toISOString().split('T')[0]}.${options.format}`);
+}
@@ -0,0 +1,90 @@
+import type { GeoPoint } from '@/types';
+
+// Web Mercator maths for drawing OpenStreetMap tiles without a map library.
+// Positions are "world pixels" at zoom 0, where the world is one tile wide;
+// multiply by 2^zoom for the pixel position at that zoom.
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 18;
+
+export type WorldPoint = { x: number; y: number };
+
+export const tileUrl = (zoom: number, x: number, y: number) =>
+  `https://tile.openstreetmap.org/${zoom}/${x}/${y}.png`;
+
+export function project({ lat, lng }: GeoPoint): WorldPoint {
+  // Mercator stretches to infinity at the poles
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: (TILE_SIZE * (lng + 180)) / 360,
+    y: TILE_SIZE * (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)),
+  };
+}
+
+export const clampZoom = (zoom: number) => Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+
+// The centre and the highest zoom at which every point fits in a `width` x
+// `height` view with `padding` pixels to spare on each side. A single point
+// is shown at street level.
+export function fitView(points: WorldPoint[], width: number, height: number, padding = 40) {
+  if (points.length === 0) return { center: { x: TILE_SIZE / 2, y: TILE_SIZE / 2 }, zoom: MIN_ZOOM };
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+
+  const spanX = maxX - minX;
+  const spanY = maxY - minY;
+  if (spanX === 0 && spanY === 0) return { center, zoom: 14 };
+
+  const scale = Math.min(
+    spanX > 0 ? Math.max(width - 2 * padding, 1) / spanX : Infinity,
+    spanY > 0 ? Math.max(height - 2 * padding, 1) / spanY : Infinity
+  );
+  return { center, zoom: clampZoom(Math.min(Math.floor(Math.log2(scale)), 16)) };
+}
+
+export type VisibleTile = { key: string; url: string; left: number; top: number };
+
+// Tiles covering a `width` x `height` view centred on `center`. Tiles wrap
+// around horizontally; rows beyond the poles are skipped.
+export function visibleTiles(center: WorldPoint, zoom: number, width: number, height: number): VisibleTile[] {
+  const count = 2 ** zoom;
+  const left = center.x * count - width / 2;
+  const top = center.y * count - height / 2;
+
+  const tiles: VisibleTile[] = [];
+  for (let tileY = Math.max(Math.floor(top / TILE_SIZE), 0); tileY <= Math.min(Math.floor((top + height) / TILE_SIZE), count - 1); tileY++) {
+    for (let tileX = Math.floor(left / TILE_SIZE); tileX <= Math.floor((left + width) / TILE_SIZE); tileX++) {
+      const wrappedX = ((tileX % count) + count) % count;
+      tiles.push({
+        key: `${zoom}/${tileX}/${tileY}`,
+        url: tileUrl(zoom, wrappedX, tileY),
+        left: tileX * TILE_SIZE - left,
+        top: tileY * TILE_SIZE - top,
+      });
+    }
+  }
+  return tiles;
+}
+
+// Groups items whose markers would overlap at `zoom`, so each group gets a
+// single marker. `cellSize` is in screen pixels.
+export function clusterPoints<T extends { world: WorldPoint }>(items: T[], zoom: number, cellSize = 36) {
+  const scale = 2 ** zoom;
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = `${Math.floor((item.world.x * scale) / cellSize)}:${Math.floor((item.world.y * scale) / cellSize)}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return Array.from(groups, ([key, members]) => ({
+    key,
+    members,
+    world: {
+      x: members.reduce((sum, member) => sum + member.world.x, 0) / members.length,
+      y: members.reduce((sum, member) => sum + member.world.y, 0) / members.length,
+    },
+  }));
+}
@@ -0,0 +1,12 @@
+// The server checks every request against the same matrix; the app only uses
+// it to hide what the user's role can't do.
+export {
+  ROLE_PERMISSIONS,
+  type Permission,
+} from '../../supabase-functions/server/permissions';
+
+import { hasPermission, type Permission } from '../../supabase-functions/server/permissions';
+import type { User } from '@/types';
+
+export const can = (user: User, permission: Permission) =>
+  hasPermission(user.app_metadata?.role ?? 'user', permission);
@@ -0,0 +1,25 @@
+// The server validates numbers with the same module, so both sides agree on
+// what is valid and how numbers are stored.
+export {
+  DEFAULT_PHONE_COUNTRY,
+  PHONE_COUNTRIES,
+  findPhoneCountry,
+  formatNationalNumber,
+  formatPhone,
+  normalizePhone,
+  parsePhone,
+  validatePhone,
+  type ParsedPhone,
+  type PhoneCountry,
+} from '../../supabase-functions/server/phone';
+
+import { DEFAULT_PHONE_COUNTRY, formatNationalNumber, parsePhone } from '../../supabase-functions/server/phone';
+
+// Splits a stored number into the country selector and national number
+// fields used by PhoneInput.
+export function toPhoneFields(value: string): { country: string; number: string } {
+  const phone = parsePhone(value);
+  return phone
+    ? { country: phone.country.code, number: formatNationalNumber(phone) }
+    : { country: DEFAULT_PHONE_COUNTRY, number: value };
+}
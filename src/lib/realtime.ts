@@ -0,0 +1,19 @@
+import { supabase } from '@/utils/supabase/client';
+import type { EntryChange } from '@/types';
+
+// Must match the channel the server broadcasts on.
+const ENTRY_CHANGES_CHANNEL = 'user-entry-changes';
+const ENTRY_CHANGE_EVENT = 'entry_change';
+
+// Calls `onChange` for every entry change broadcast by the server. Returns a
+// function that ends the subscription.
+export function subscribeToEntryChanges(onChange: (change: EntryChange) => void) {
+  const channel = supabase
+    .channel(ENTRY_CHANGES_CHANNEL)
+    .on('broadcast', { event: ENTRY_CHANGE_EVENT }, ({ payload }) => onChange(payload as EntryChange))
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
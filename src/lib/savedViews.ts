@@ -0,0 +1,49 @@
+import { getSearchParam } from '@/lib/urlState';
+import type { SavedViewFilters } from '@/types';
+
+// The server stores views through the same rules, so a view saved from the
+// URL compares equal to the one it came from.
+export {
+  ALL_DIRECTORY_COLUMNS,
+  DIRECTORY_COLUMNS,
+  normalizeFilters,
+} from '../../supabase-functions/server/saved_view_schema';
+
+import { ALL_DIRECTORY_COLUMNS, normalizeFilters } from '../../supabase-functions/server/saved_view_schema';
+
+const splitList = (value: string | null | undefined) =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+export const sameFilters = (a: SavedViewFilters, b: SavedViewFilters) =>
+  JSON.stringify(normalizeFilters(a)) === JSON.stringify(normalizeFilters(b));
+
+// The filters in the current URL, e.g. from a link another admin shared.
+export function filtersFromUrl(): SavedViewFilters {
+  const columns = getSearchParam('columns');
+  return normalizeFilters({
+    q: getSearchParam('q') ?? undefined,
+    from: getSearchParam('from') ?? undefined,
+    to: getSearchParam('to') ?? undefined,
+    tags: splitList(getSearchParam('tags')),
+    tagMode: getSearchParam('tagMode') === 'all' ? 'all' : 'any',
+    sort: getSearchParam('sort') ?? undefined,
+    columns: columns === null
+      ? undefined
+      : ALL_DIRECTORY_COLUMNS.filter(column => splitList(columns).includes(column)),
+  });
+}
+
+// Query parameters for `filters`; null removes a parameter. `columns` lists
+// the name column too, so it isn't empty when every other column is hidden.
+export function filtersToSearchParams(filters: SavedViewFilters): Record<string, string | null> {
+  const { q, from, to, tags, tagMode, sort, columns } = normalizeFilters(filters);
+  return {
+    q: q ?? null,
+    from: from ?? null,
+    to: to ?? null,
+    tags: tags?.join(',') ?? null,
+    tagMode: tagMode ?? null,
+    sort: sort ?? null,
+    columns: columns ? ['name', ...columns].join(',') : null,
+  };
+}
@@ -0,0 +1,43 @@
+import type { SortField, SortSpec } from '@/types';
+
+const SORT_FIELDS: SortField[] = ['name', 'mobile', 'address', 'dateAdded', 'deletedAt'];
+
+// Parses the `sort` query parameter format shared with the server,
+// e.g. `name,-dateAdded`. Unknown fields are dropped.
+export function parseSort(value: string | null | undefined): SortSpec[] {
+  if (!value) return [];
+  const specs: SortSpec[] = [];
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const field = part.replace(/^[-+]/, '') as SortField;
+    if (SORT_FIELDS.includes(field) && !specs.some(spec => spec.field === field)) {
+      specs.push({ field, direction: part.startsWith('-') ? 'desc' : 'asc' });
+    }
+  }
+  return specs;
+}
+
+export function serializeSort(specs: SortSpec[]): string {
+  return specs.map(({ field, direction }) => (direction === 'desc' ? `-${field}` : field)).join(',');
+}
+
+// Cycles a column through ascending -> descending -> unsorted. Without
+// `multi` the column replaces any other sort; with it (shift-click) the other
+// columns are kept and this one is appended or updated in place.
+export function toggleSort(specs: SortSpec[], field: SortField, multi: boolean): SortSpec[] {
+  const current = specs.find(spec => spec.field === field);
+  const next: SortSpec | null = !current
+    ? { field, direction: 'asc' }
+    : current.direction === 'asc'
+      ? { field, direction: 'desc' }
+      : null;
+
+  if (!multi) {
+    return next ? [next] : [];
+  }
+  if (!current) {
+    return [...specs, next!];
+  }
+  return next
+    ? specs.map(spec => (spec.field === field ? next : spec))
+    : specs.filter(spec => spec.field !== field);
+}
@@ -0,0 +1,35 @@
+import type { Tag, TagColor } from '@/types';
+
+// Badge classes for each color, written out in full so Tailwind keeps them.
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-slate-100 text-slate-800 border-slate-200',
+  red: 'bg-red-100 text-red-800 border-red-200',
+  orange: 'bg-orange-100 text-orange-800 border-orange-200',
+  amber: 'bg-amber-100 text-amber-800 border-amber-200',
+  green: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  teal: 'bg-teal-100 text-teal-800 border-teal-200',
+  blue: 'bg-blue-100 text-blue-800 border-blue-200',
+  indigo: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  purple: 'bg-purple-100 text-purple-800 border-purple-200',
+  pink: 'bg-pink-100 text-pink-800 border-pink-200',
+};
+
+// Solid swatches for the color picker.
+export const TAG_SWATCH_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-slate-500',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  amber: 'bg-amber-500',
+  green: 'bg-emerald-500',
+  teal: 'bg-teal-500',
+  blue: 'bg-blue-500',
+  indigo: 'bg-indigo-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+};
+
+export const TAG_COLORS = Object.keys(TAG_COLOR_CLASSES) as TagColor[];
+
+// The entry's tags in list order. Ids of tags deleted meanwhile are skipped.
+export const entryTags = (ids: string[] | undefined, tags: Tag[]) =>
+  ids && ids.length > 0 ? tags.filter(tag => ids.includes(tag.id)) : [];
@@ -0,0 +1,20 @@
+// Minimal helpers for mirroring dashboard state into the query string without
+// triggering a navigation. Safe to call during render on the server.
+
+export function getSearchParam(name: string): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+export function setSearchParams(updates: Record<string, string | null | undefined>) {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  for (const [name, value] of Object.entries(updates)) {
+    if (value) {
+      url.searchParams.set(name, value);
+    } else {
+      url.searchParams.delete(name);
+    }
+  }
+  window.history.replaceState(window.history.state, '', url);
+}
@@ -0,0 +1,32 @@
+import type { Role } from '@/types';
+
+// The server checks roles against the same list, and builds invite links
+// with the same query parameter.
+export { ROLES } from '../../supabase-functions/server/permissions';
+export { INVITE_PARAM } from '../../supabase-functions/server/invite_link';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: 'User',
+  viewer: 'Viewer',
+  editor: 'Editor',
+  exporter: 'Exporter',
+  super_admin: 'Super Admin',
+};
+
+// What each role can do, in words; see ROLE_PERMISSIONS for the rules themselves.
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  user: 'Can only add entries.',
+  viewer: 'Can see everyone on the board, but not change or export anyone.',
+  editor: 'Can see and edit everyone on the board, but not delete or export anyone.',
+  exporter: 'Can see everyone on the board and export them to a file.',
+  super_admin: 'Can see, change, export and delete everyone on the board, and manage these accounts.',
+};
+
+// Password reset links land back here with this query parameter, which opens
+// the screen for choosing a password.
+export const SET_PASSWORD_PARAM = 'set-password';
+
+// The app's address without its query string, for links sent to other people.
+export const appUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+export const setPasswordRedirectUrl = () => `${appUrl()}?${SET_PASSWORD_PARAM}=1`;
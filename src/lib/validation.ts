@@ -0,0 +1,103 @@
+import type { FieldError, FieldErrors, Resolver, UseFormSetError } from 'react-hook-form';
+import {
+  ENTRY_FIELDS,
+  parseEntry,
+  type EntryField,
+  type EntryFieldErrors,
+  type EntryValues,
+} from '../../supabase-functions/server/entry_schema';
+import type { CustomFieldFormValues } from '@/lib/customFields';
+import type { AddressParts, CustomFieldDefinition, UserEntryInput } from '@/types';
+
+// The server validates entries with the same schema, so a form that passes
+// here won't be rejected for its field values.
+export {
+  ADDRESS_PART_RULES,
+  ENTRY_FIELDS,
+  ENTRY_TEXT_RULES,
+  firstEntryError,
+  parseEntry,
+  type EntryField,
+  type EntryFieldErrors,
+  type EntryParseResult,
+  type EntryValues,
+} from '../../supabase-functions/server/entry_schema';
+
+export type EntryErrors = EntryFieldErrors;
+
+// Field rules for a new person's details, e.g. an imported row. Returns an
+// empty object when valid. Mobiles without a country code are checked against
+// `phoneCountry`, and required `customFields` must have a value.
+export function validateEntryInput(
+  input: UserEntryInput,
+  { phoneCountry, customFields }: { phoneCountry?: string; customFields?: CustomFieldDefinition[] } = {}
+): EntryErrors {
+  const result = parseEntry(input, { phoneCountry, customFields, creating: true });
+  return result.success ? {} : result.errors;
+}
+
+// Values held by the entry forms; `mobile` is the number as typed. The
+// one-line address is built from the parts when the form is submitted. Tags
+// are picked outside the form.
+export type EntryFormValues = Omit<UserEntryInput, 'address' | 'addressParts' | 'customFields' | 'tags'> & {
+  phoneCountry: string;
+  addressParts: AddressParts;
+  customFields: CustomFieldFormValues;
+};
+
+// Fields the form can show errors for. Tags are picked outside the form and
+// the resolver doesn't check them.
+type FormErrorField = Exclude<EntryField, 'tags'>;
+
+// The form field showing errors for `field`. A one-line address error can
+// only come from the server, and is shown on the first address line.
+type FormField = Exclude<FormErrorField, 'address'>;
+const toFormField = (field: FormErrorField): FormField => (field === 'address' ? 'addressParts.line1' : field);
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+// react-hook-form resolver for the entry forms, checking custom fields
+// against `customFields`; use with `useForm<EntryFormValues, unknown,
+// EntryValues>`. Submit handlers receive the cleaned values, ready to send:
+// the mobile in E.164 and `address` built from the parts.
+export const entryFormResolver = (
+  customFields: CustomFieldDefinition[]
+): Resolver<EntryFormValues, unknown, EntryValues> => async (values) => {
+  const result = parseEntry(values, { phoneCountry: values.phoneCountry, customFields });
+  if (result.success) {
+    return { values: result.data, errors: {} };
+  }
+
+  const errors: FieldErrors<EntryFormValues> = {};
+  const addressErrors: Partial<Record<keyof AddressParts, FieldError>> = {};
+  const customErrors: Record<string, FieldError> = {};
+  for (const [field, message] of Object.entries(result.errors) as [FormErrorField, string][]) {
+    const error: FieldError = { type: 'validate', message };
+    const formField = toFormField(field);
+    if (formField === 'name' || formField === 'mobile') {
+      errors[formField] = error;
+    } else if (formField.startsWith(CUSTOM_FIELD_PREFIX)) {
+      customErrors[formField.slice(CUSTOM_FIELD_PREFIX.length)] = error;
+    } else {
+      addressErrors[formField.slice('addressParts.'.length) as keyof AddressParts] = error;
+    }
+  }
+  if (Object.keys(addressErrors).length > 0) {
+    errors.addressParts = addressErrors;
+  }
+  if (Object.keys(customErrors).length > 0) {
+    errors.customFields = customErrors;
+  }
+  return { values: {}, errors };
+};
+
+// Shows field errors returned by the server on the matching form fields.
+export function setEntryFieldErrors(setError: UseFormSetError<EntryFormValues>, errors: EntryFieldErrors) {
+  const invalid = [
+    ...ENTRY_FIELDS.filter(field => errors[field]),
+    ...(Object.keys(errors) as EntryField[]).filter(field => field.startsWith(CUSTOM_FIELD_PREFIX)),
+  ].filter((field): field is FormErrorField => field !== 'tags');
+  invalid.forEach((field, index) => {
+    setError(toFormField(field), { type: 'server', message: errors[field] }, { shouldFocus: index === 0 });
+  });
+}
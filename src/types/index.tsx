@@ -1,18 +1,117 @@
-export type User = {
-  id: string;
-  email: string;
-  user_metadata?: {
-    role?: 'user' | 'super_admin';
-    name?: string;
-  };
+// The server and the app use the same types for what they send each other,
+// so they are defined once in supabase-functions/server/types.ts. Only what
+// the app sends or keeps differently is declared here.
+export type {
+  AddressParts,
+  AuditAction,
+  AuditChange,
+  AuditEvent,
+  AuthUser as User,
+  BatchSelection,
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValue,
+  DirectoryColumn,
+  DuplicatePair,
+  DuplicateReason,
+  EntryChange,
+  EntryLocations,
+  EntryOwner,
+  EntryPage,
+  EntryVersion,
+  GeoPoint,
+  ImportResult,
+  ManagedUser,
+  MapPoint,
+  OwnEntries,
+  PendingInvite,
+  Role,
+  SavedView,
+  SavedViewFilters,
+  SortField,
+  SortSpec,
+  Tag,
+  TagColor,
+  TagMode,
+  UserEntry,
+} from '../../supabase-functions/server/types';
+
+import type {
+  AuditEvent,
+  AuditQuery as ServerAuditQuery,
+  CustomFieldDefinition,
+  EntryQuery as ServerEntryQuery,
+  PendingInvite,
+  SavedView,
+  Tag,
+  UserEntry,
+} from '../../supabase-functions/server/types';
+
+// What the admin screen sends to create or edit a field.
+export type CustomFieldInput = Omit<CustomFieldDefinition, 'key' | 'deletedAt'>;
+
+// What the admin screen sends to create or edit a tag.
+export type TagInput = Omit<Tag, 'id' | 'deletedAt'>;
+
+// The server builds `address` from `addressParts` when both are sent.
+// Leaving out `customFields` or `tags` keeps the entry's current values.
+export type UserEntryInput = Pick<UserEntry, 'name' | 'mobile' | 'address' | 'addressParts' | 'customFields' | 'tags'>;
+
+// The query parameters of GET /user-entries.
+export type EntryQuery = Omit<ServerEntryQuery, 'sort' | 'limit' | 'cursor'> & {
+  // Comma-separated fields, `-` prefix for descending, e.g. `name,-dateAdded`
+  sort?: string;
+  limit?: number;
+  cursor?: string | null;
 };
 
-export type UserEntry = {
-  id: string;
+export type EntryStats = {
+  total: number;
+  addedThisWeek: number;
+  trashed: number;
+  trashRetentionDays: number;
+};
+
+export type EntryFilter = Pick<EntryQuery, 'q' | 'from' | 'to' | 'tags' | 'tagMode'>;
+
+export type BatchAction =
+  | { action: 'delete' }
+  | { action: 'reassign'; userId: string }
+  | { action: 'tag' | 'untag'; tagIds: string[] };
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'filters' | 'shared'>;
+
+export type InviteUserInput = Pick<PendingInvite, 'email' | 'name' | 'role'>;
+
+// What an invite link shows before the account is created.
+export type InviteDetails = Pick<PendingInvite, 'email' | 'name' | 'role' | 'expiresAt'>;
+
+export type AcceptInviteInput = {
+  token: string;
   name: string;
-  mobile: string;
-  address: string;
-  dateAdded: string;
-  dateModified?: string;
-  userId: string;
-};
\ No newline at end of file
+  password: string;
+};
+
+// The query parameters of GET /audit.
+export type AuditQuery = Omit<ServerAuditQuery, 'actorId' | 'limit' | 'cursor'> & {
+  // User id or email
+  actorId?: string;
+  limit?: number;
+  cursor?: string | null;
+};
+
+export type AuditPage = {
+  events: AuditEvent[];
+  nextCursor: string | null;
+};
+
+export type MergeRequest = {
+  keepId: string;
+  mergeId: string;
+  // The field values the kept entry ends up with; tags are combined by the
+  // server
+  values: Omit<UserEntryInput, 'tags'>;
+  // The `dateModified` of each entry as it was loaded
+  keepDateModified: string | null;
+  mergeDateModified: string | null;
+};
@@ -0,0 +1,31 @@
+// Address helpers shared by the server and the app (re-exported from
+// src/lib/address.ts). Only import other shared modules here.
+import type { AddressParts, UserEntry } from './types.ts';
+
+export const ADDRESS_FIELDS: (keyof AddressParts)[] = ['line1', 'line2', 'city', 'state', 'postalCode', 'country'];
+
+export const EMPTY_ADDRESS_PARTS: AddressParts = {
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: '',
+};
+
+// One line, e.g. "12 High St, Flat 2, Leeds, LS1 4AP, United Kingdom".
+export function formatAddress(parts: AddressParts): string {
+  const region = [parts.state, parts.postalCode].filter(Boolean).join(' ');
+  return [parts.line1, parts.line2, parts.city, region, parts.country]
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+// The parts to edit for an entry. Legacy entries only have the one-line
+// address, which is put in the first line for the user to split up.
+export const toAddressParts = (entry: Pick<UserEntry, 'address' | 'addressParts'>): AddressParts =>
+  entry.addressParts ?? { ...EMPTY_ADDRESS_PARTS, line1: entry.address };
+
+export const sameAddressParts = (a: AddressParts | undefined, b: AddressParts | undefined) =>
+  a === b || (!!a && !!b && ADDRESS_FIELDS.every(field => a[field] === b[field]));
@@ -0,0 +1,74 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { logger } from 'hono/logger';
+import type { AuthProvider } from './auth.ts';
+import type { AppConfig } from './config.ts';
+import type { Geocoder } from './geocoding.ts';
+import type { KvStore } from './kv_store.ts';
+import type { Mailer } from './mailer.ts';
+import { runPendingMigrations } from './migrations.ts';
+import type { ChangeNotifier } from './realtime.ts';
+import type { AppEnv } from './types.ts';
+import { auditRoutes } from './routes/audit.ts';
+import { customFieldsRoutes } from './routes/custom_fields.ts';
+import { invitesRoutes } from './routes/invites.ts';
+import { savedViewsRoutes } from './routes/saved_views.ts';
+import { signupRoutes } from './routes/signup.ts';
+import { tagsRoutes } from './routes/tags.ts';
+import { userEntriesRoutes } from './routes/user_entries.ts';
+import { usersRoutes } from './routes/users.ts';
+
+export const FUNCTION_NAME = 'make-server-f328fde2';
+
+export interface AppDeps {
+  kv: KvStore;
+  auth: AuthProvider;
+  config: AppConfig;
+  notifier: ChangeNotifier;
+  geocoder: Geocoder;
+  mailer: Mailer;
+}
+
+export function createApp(deps: AppDeps) {
+  const app = new Hono<AppEnv>().basePath(`/${FUNCTION_NAME}`);
+
+  app.use('*', logger(console.log));
+  app.use(
+    '*',
+    cors({
+      origin: '*',
+      allowHeaders: ['Content-Type', 'Authorization'],
+      allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    })
+  );
+
+  // Pending data migrations finish before the first request is handled; a
+  // failed run is retried on the next request.
+  let migrations: Promise<void> | null = null;
+  app.use('*', async (_c, next) => {
+    migrations ??= runPendingMigrations(deps.kv).catch(error => {
+      migrations = null;
+      throw error;
+    });
+    await migrations;
+    await next();
+  });
+
+  app.get('/health', (c) => c.json({ status: 'ok' }));
+  app.route('/signup', signupRoutes(deps));
+  app.route('/user-entries', userEntriesRoutes(deps));
+  app.route('/audit', auditRoutes(deps));
+  app.route('/custom-fields', customFieldsRoutes(deps));
+  app.route('/tags', tagsRoutes(deps));
+  app.route('/saved-views', savedViewsRoutes(deps));
+  app.route('/users', usersRoutes(deps));
+  app.route('/invites', invitesRoutes(deps));
+
+  app.notFound((c) => c.json({ error: 'Not found' }, 404));
+  app.onError((error, c) => {
+    console.error('Unhandled server error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  });
+
+  return app;
+}
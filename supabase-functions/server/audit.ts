@@ -0,0 +1,142 @@
+import type { KvStore } from './kv_store.ts';
+import type { AuditAction, AuditChange, AuditEvent, AuditQuery, AuthUser, EntryVersion, UserEntry } from './types.ts';
+
+// Events are keyed by timestamp so keys sort chronologically.
+const eventKey = (event: Pick<AuditEvent, 'timestamp' | 'id'>) => `audit_event:${event.timestamp}:${event.id}`;
+
+// Each event is also stored under its entry, so one entry's history is read
+// without loading the whole log.
+const entryEventsPrefix = (entryId: string) => `audit_entry:${entryId}:`;
+const entryEventKey = (event: Pick<AuditEvent, 'entryId' | 'timestamp' | 'id'>) =>
+  `${entryEventsPrefix(event.entryId)}${event.timestamp}:${event.id}`;
+
+// `location` is left out; it follows from the address.
+const AUDITED_FIELDS: (keyof UserEntry)[] = [
+  'name',
+  'mobile',
+  'address',
+  'addressParts',
+  'customFields',
+  'tags',
+  'userId',
+  'deletedAt',
+  'mergedInto',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows written per request when indexing existing events
+const INDEX_BATCH_SIZE = 500;
+
+export const SYSTEM_ACTOR: Pick<AuthUser, 'id' | 'email'> = { id: 'system', email: '' };
+
+// Address parts, custom fields and tags are objects, so values are compared by content.
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function diffEntries(before: UserEntry | undefined, after: UserEntry | undefined): AuditChange[] {
+  return AUDITED_FIELDS
+    .filter(field => !sameValue(before?.[field], after?.[field]))
+    .map(field => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }));
+}
+
+export function buildAuditEvent(
+  action: AuditAction,
+  actor: Pick<AuthUser, 'id' | 'email'>,
+  before: UserEntry | undefined,
+  after: UserEntry | undefined,
+  timestamp = new Date().toISOString()
+): AuditEvent {
+  const entry = (after ?? before)!;
+  return {
+    id: crypto.randomUUID(),
+    action,
+    entryId: entry.id,
+    entryName: entry.name,
+    actorId: actor.id,
+    actorEmail: actor.email,
+    timestamp,
+    changes: diffEntries(before, after),
+  };
+}
+
+export async function recordAuditEvents(kv: KvStore, events: AuditEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  await kv.mset(Object.fromEntries(
+    events.flatMap(event => [[eventKey(event), event], [entryEventKey(event), event]])
+  ));
+}
+
+const listEntryEvents = (kv: KvStore, entryId: string) =>
+  kv.getByPrefix<AuditEvent>(entryEventsPrefix(entryId));
+
+// Adds the per-entry copy of events recorded before it existed. Returns how
+// many events were indexed.
+export async function indexAuditEventsByEntry(kv: KvStore): Promise<number> {
+  const events = await kv.getByPrefix<AuditEvent>('audit_event:');
+  for (let start = 0; start < events.length; start += INDEX_BATCH_SIZE) {
+    const batch = events.slice(start, start + INDEX_BATCH_SIZE);
+    await kv.mset(Object.fromEntries(batch.map(event => [entryEventKey(event), event])));
+  }
+  return events.length;
+}
+
+// Newest first. The cursor is the key of the last event on the previous page.
+export async function queryAuditEvents(kv: KvStore, { actorId, entryId, from, to, limit, cursor }: AuditQuery) {
+  const fromTime = from ? new Date(from).getTime() : null;
+  // A bare `to` date includes the whole day
+  const toTime = to ? new Date(to).getTime() + (/^\d{4}-\d{2}-\d{2}$/.test(to) ? DAY_MS : 0) : null;
+
+  const events = entryId ? await listEntryEvents(kv, entryId) : await kv.getByPrefix<AuditEvent>('audit_event:');
+  const matching = events
+    .filter(event => {
+      if (actorId && event.actorId !== actorId && event.actorEmail !== actorId) return false;
+      const time = new Date(event.timestamp).getTime();
+      if (fromTime !== null && time < fromTime) return false;
+      if (toTime !== null && time >= toTime) return false;
+      return true;
+    })
+    .map(event => ({ event, key: eventKey(event) }))
+    .sort((a, b) => b.key.localeCompare(a.key));
+
+  const remaining = cursor ? matching.filter(({ key }) => key < cursor) : matching;
+  const page = remaining.slice(0, limit);
+
+  return {
+    events: page.map(({ event }) => event),
+    nextCursor: remaining.length > limit ? page[page.length - 1].key : null,
+  };
+}
+
+// Newest first. Versions are rebuilt by walking back from the current entry
+// through the `before` side of each change, so entries created before audit
+// logging started still get a history from their first recorded change.
+export async function listEntryVersions(kv: KvStore, entry: UserEntry): Promise<EntryVersion[]> {
+  const events = (await listEntryEvents(kv, entry.id))
+    .sort((a, b) => eventKey(b).localeCompare(eventKey(a)));
+
+  let state: EntryVersion['entry'] = {
+    name: entry.name,
+    mobile: entry.mobile,
+    address: entry.address,
+    addressParts: entry.addressParts,
+    customFields: entry.customFields,
+    tags: entry.tags,
+    userId: entry.userId,
+    deletedAt: entry.deletedAt,
+    mergedInto: entry.mergedInto,
+  };
+  const versions: EntryVersion[] = [];
+  for (const event of events) {
+    versions.push({ event, entry: state });
+    const previous: Record<string, unknown> = { ...state };
+    for (const change of event.changes) {
+      if (change.before === null) {
+        delete previous[change.field];
+      } else {
+        previous[change.field] = change.before;
+      }
+    }
+    state = previous as EntryVersion['entry'];
+  }
+  return versions;
+}
@@ -0,0 +1,187 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { KvStore } from './kv_store.ts';
+import { hasPermission, type Permission } from './permissions.ts';
+import type { AuthUser, Role } from './types.ts';
+
+export type CreateUserInput = {
+  email: string;
+  password: string;
+  name: string;
+};
+
+// A one-time sign-in link, or null where the provider can't make one.
+export type AuthLink = string | null;
+
+export interface AuthProvider {
+  getUser(token: string): Promise<AuthUser | null>;
+  // New accounts always get the `user` role.
+  createUser(input: CreateUserInput): Promise<AuthUser>;
+  setRole(userId: string, role: Role): Promise<AuthUser>;
+  listUsers(): Promise<AuthUser[]>;
+  setDisabled(userId: string, disabled: boolean): Promise<AuthUser>;
+  createPasswordResetLink(userId: string, redirectTo?: string): Promise<AuthLink>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// The role the server granted; anything a user put in their own metadata is ignored.
+export const roleOf = (user: AuthUser): Role => user.app_metadata?.role ?? 'user';
+
+export const can = (user: AuthUser, permission: Permission) => hasPermission(roleOf(user), permission);
+
+export const isDisabled = (user: AuthUser) =>
+  !!user.banned_until && new Date(user.banned_until).getTime() > Date.now();
+
+// Supabase has no "disabled" flag; a ban this long stands in for one.
+const DISABLED_BAN_DURATION = '876000h';
+const LOCAL_DISABLED_UNTIL = '9999-12-31T00:00:00.000Z';
+const LIST_PAGE_SIZE = 1000;
+
+// Verifies access tokens and creates accounts through the Supabase admin API.
+// `client` must be created with the service role key.
+export function createSupabaseAuth(client: SupabaseClient): AuthProvider {
+  return {
+    async getUser(token) {
+      const { data, error } = await client.auth.getUser(token);
+      if (error || !data.user) return null;
+      return data.user as AuthUser;
+    },
+    async createUser({ email, password, name }) {
+      const { data, error } = await client.auth.admin.createUser({
+        email,
+        password,
+        user_metadata: { name },
+        app_metadata: { role: 'user' },
+        // Automatically confirm the user's email since an email server hasn't been configured.
+        email_confirm: true,
+      });
+      if (error || !data.user) {
+        throw new AuthError(error?.message || 'Failed to create user');
+      }
+      return data.user as AuthUser;
+    },
+    async setRole(userId, role) {
+      const { data, error } = await client.auth.admin.updateUserById(userId, { app_metadata: { role } });
+      if (error || !data.user) {
+        throw new AuthError(error?.message || 'User not found', 404);
+      }
+      return data.user as AuthUser;
+    },
+    async listUsers() {
+      const users: AuthUser[] = [];
+      for (let page = 1; ; page++) {
+        const { data, error } = await client.auth.admin.listUsers({ page, perPage: LIST_PAGE_SIZE });
+        if (error) throw error;
+        users.push(...(data.users as AuthUser[]));
+        if (data.users.length < LIST_PAGE_SIZE) return users;
+      }
+    },
+    async setDisabled(userId, disabled) {
+      const { data, error } = await client.auth.admin.updateUserById(userId, {
+        ban_duration: disabled ? DISABLED_BAN_DURATION : 'none',
+      });
+      if (error || !data.user) {
+        throw new AuthError(error?.message || 'User not found', 404);
+      }
+      return data.user as AuthUser;
+    },
+    async createPasswordResetLink(userId, redirectTo) {
+      const { data: found, error: findError } = await client.auth.admin.getUserById(userId);
+      if (findError || !found.user?.email) {
+        throw new AuthError('User not found', 404);
+      }
+      const { data, error } = await client.auth.admin.generateLink({
+        type: 'recovery',
+        email: found.user.email,
+        options: { redirectTo },
+      });
+      if (error || !data.properties) {
+        throw new AuthError(error?.message || 'Failed to create a password reset link');
+      }
+      return data.properties.action_link;
+    },
+  };
+}
+
+const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+// Development-only provider. Tokens are decoded WITHOUT verifying their
+// signature, so access tokens issued by a real Supabase project keep working
+// against the local server. Users created through /signup are kept in the kv
+// store under `auth_user:<id>`; their role can be changed with setRole, while
+// other tokens keep the role in their own `app_metadata` claim. There are no
+// passwords, so password resets come without a link.
+export function createLocalAuth(kv: KvStore): AuthProvider {
+  const getStored = async (userId: string) => {
+    const user = await kv.get<AuthUser>(`auth_user:${userId}`);
+    if (!user) {
+      throw new AuthError('User not found', 404);
+    }
+    return user;
+  };
+
+  const saveStored = async (user: AuthUser) => {
+    await kv.set(`auth_user:${user.id}`, user);
+    return user;
+  };
+
+  return {
+    async getUser(token) {
+      const payload = decodeJwtPayload(token);
+      if (!payload || typeof payload.sub !== 'string') return null;
+      if (typeof payload.exp === 'number' && payload.exp * 1000 < Date.now()) return null;
+
+      const stored = await kv.get<AuthUser>(`auth_user:${payload.sub}`);
+      if (stored) return stored;
+
+      return {
+        id: payload.sub,
+        email: typeof payload.email === 'string' ? payload.email : '',
+        app_metadata: (payload.app_metadata as AuthUser['app_metadata']) ?? {},
+        user_metadata: (payload.user_metadata as AuthUser['user_metadata']) ?? {},
+      };
+    },
+    async createUser({ email, name }) {
+      const existing = await kv.getByPrefix<AuthUser>('auth_user:');
+      if (existing.some(user => user.email.toLowerCase() === email.toLowerCase())) {
+        throw new AuthError('A user with this email address has already been registered', 409);
+      }
+      return saveStored({
+        id: crypto.randomUUID(),
+        email,
+        app_metadata: { role: 'user' },
+        user_metadata: { name },
+        created_at: new Date().toISOString(),
+      });
+    },
+    async setRole(userId, role) {
+      const user = await getStored(userId);
+      return saveStored({ ...user, app_metadata: { ...user.app_metadata, role } });
+    },
+    listUsers() {
+      return kv.getByPrefix<AuthUser>('auth_user:');
+    },
+    async setDisabled(userId, disabled) {
+      const { banned_until: _, ...user } = await getStored(userId);
+      return saveStored(disabled ? { ...user, banned_until: LOCAL_DISABLED_UNTIL } : user);
+    },
+    async createPasswordResetLink(userId) {
+      await getStored(userId);
+      return null;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { GEOCODER_NAMES, type GeocoderName } from './geocoding.ts';
+
+export type AppConfig = {
+  // Entries in the trash are purged this many days after being deleted.
+  trashRetentionDays: number;
+  // Provider used to find a location for each address.
+  geocoder: GeocoderName;
+  // Nominatim instance for the `nominatim` geocoder; the public one if unset.
+  nominatimUrl?: string;
+  // Invite links stop working this many hours after they were sent.
+  inviteTtlHours: number;
+  // Users can delete their own entries for this many hours after adding them.
+  ownEntryDeleteHours: number;
+};
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DEFAULT_INVITE_TTL_HOURS = 72;
+const DEFAULT_OWN_ENTRY_DELETE_HOURS = 24;
+
+export function loadConfig(getEnv: (name: string) => string | undefined): AppConfig {
+  const retention = Number(getEnv('TRASH_RETENTION_DAYS'));
+  const inviteTtl = Number(getEnv('INVITE_TTL_HOURS'));
+  const ownDelete = Number(getEnv('OWN_ENTRY_DELETE_HOURS'));
+  const geocoder = getEnv('GEOCODER') as GeocoderName | undefined;
+  return {
+    trashRetentionDays: Number.isFinite(retention) && retention > 0 ? retention : DEFAULT_TRASH_RETENTION_DAYS,
+    geocoder: geocoder && GEOCODER_NAMES.includes(geocoder) ? geocoder : 'none',
+    nominatimUrl: getEnv('NOMINATIM_URL') || undefined,
+    inviteTtlHours: Number.isFinite(inviteTtl) && inviteTtl > 0 ? inviteTtl : DEFAULT_INVITE_TTL_HOURS,
+    ownEntryDeleteHours: Number.isFinite(ownDelete) && ownDelete > 0 ? ownDelete : DEFAULT_OWN_ENTRY_DELETE_HOURS,
+  };
+}
@@ -0,0 +1,87 @@
+// Validation of custom field values, shared by the server routes and the
+// app's forms through entry_schema.ts. Only import other shared modules here.
+import type { CustomFieldDefinition, CustomFieldType, CustomFieldValue } from './types.ts';
+
+export const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'textarea', label: 'Long text' },
+  { type: 'email', label: 'Email' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'select', label: 'Dropdown' },
+  { type: 'checkbox', label: 'Checkbox' },
+];
+
+// Types whose `min` and `max` limit the length of the value.
+export const LENGTH_LIMITED_TYPES: CustomFieldType[] = ['text', 'textarea', 'email'];
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) &&
+  new Date(value).toISOString().startsWith(value);
+
+const matchesPattern = (value: string, pattern: string) => {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return true;
+  }
+};
+
+type ValueResult = { value?: CustomFieldValue; error?: string };
+
+// Checks one value. Empty values come back without `value`.
+export function parseCustomFieldValue(field: CustomFieldDefinition, raw: unknown): ValueResult {
+  const { label, type, required, min, max } = field;
+
+  // An unticked box is a value too, so it's stored as `false`
+  if (type === 'checkbox') {
+    const checked = raw === true || raw === 'true';
+    return required && !checked ? { error: `${label} must be checked` } : { value: checked };
+  }
+
+  const text = typeof raw === 'string' ? raw.trim() : typeof raw === 'number' ? String(raw) : '';
+  if (!text) return required ? { error: `${label} is required` } : {};
+
+  switch (type) {
+    case 'number': {
+      const value = Number(text);
+      if (!Number.isFinite(value)) return { error: `${label} must be a number` };
+      if (min !== undefined && value < min) return { error: `${label} must be at least ${min}` };
+      if (max !== undefined && value > max) return { error: `${label} must be at most ${max}` };
+      return { value };
+    }
+    case 'date':
+      return isDate(text) ? { value: text } : { error: `${label} must be a date (YYYY-MM-DD)` };
+    case 'select':
+      return field.options?.includes(text) ? { value: text } : { error: `${label} must be one of the listed options` };
+    default:
+      if (min !== undefined && text.length < min) return { error: `${label} must be at least ${min} characters` };
+      if (max !== undefined && text.length > max) return { error: `${label} must be at most ${max} characters` };
+      if (type === 'email' && !EMAIL_PATTERN.test(text)) return { error: `${label} must be a valid email address` };
+      if (field.pattern && !matchesPattern(text, field.pattern)) return { error: `${label} is not in the expected format` };
+      return { value: text };
+  }
+}
+
+// Checks the values for `fields`, keyed by field key. Values for other keys
+// are dropped.
+export function parseCustomFields(input: unknown, fields: CustomFieldDefinition[]) {
+  const raw = input && typeof input === 'object' ? input as Record<string, unknown> : {};
+  const values: Record<string, CustomFieldValue> = {};
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    const { value, error } = parseCustomFieldValue(field, raw[field.key]);
+    if (error) errors[field.key] = error;
+    else if (value !== undefined) values[field.key] = value;
+  }
+  return { values, errors };
+}
+
+// For lists and exports; dates stay in ISO form.
+export function formatCustomFieldValue(value: CustomFieldValue | undefined) {
+  if (value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
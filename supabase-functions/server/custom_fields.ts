@@ -0,0 +1,102 @@
+import { CUSTOM_FIELD_TYPES, LENGTH_LIMITED_TYPES } from './custom_field_schema.ts';
+import type { KvStore } from './kv_store.ts';
+import type { CustomFieldDefinition, CustomFieldType } from './types.ts';
+
+// All definitions live under one key, in form order, including deleted ones.
+const FIELDS_KEY = 'settings:custom_fields';
+
+export const MAX_CUSTOM_FIELDS = 50;
+const MAX_LABEL_LENGTH = 60;
+const MAX_OPTIONS = 100;
+
+export async function getCustomFieldDefinitions(kv: KvStore): Promise<CustomFieldDefinition[]> {
+  return (await kv.get<CustomFieldDefinition[]>(FIELDS_KEY)) ?? [];
+}
+
+export async function saveCustomFieldDefinitions(kv: KvStore, fields: CustomFieldDefinition[]): Promise<void> {
+  await kv.set(FIELDS_KEY, fields);
+}
+
+// The fields entries are currently filled in with.
+export async function listCustomFields(kv: KvStore): Promise<CustomFieldDefinition[]> {
+  return (await getCustomFieldDefinitions(kv)).filter(field => !field.deletedAt);
+}
+
+// `Date of birth` becomes `date_of_birth`; taken keys get a numeric suffix.
+export function makeFieldKey(label: string, taken: string[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'field';
+  let key = base;
+  for (let suffix = 2; taken.includes(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  return key;
+}
+
+const isLimit = (value: unknown) => value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value));
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export type CustomFieldInput = Omit<CustomFieldDefinition, 'key' | 'deletedAt'>;
+
+// Checks a definition sent by the admin screen. `existing` is the field being
+// edited, whose type can't change. Returns an error message when invalid.
+export function parseCustomFieldInput(
+  body: unknown,
+  fields: CustomFieldDefinition[],
+  existing?: CustomFieldDefinition
+): CustomFieldInput | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+  const { label: rawLabel, type, required, options: rawOptions, min, max, pattern: rawPattern } =
+    body as Record<string, unknown>;
+
+  const label = typeof rawLabel === 'string' ? rawLabel.trim() : '';
+  if (!label) return 'label is required';
+  if (label.length > MAX_LABEL_LENGTH) return `label must be at most ${MAX_LABEL_LENGTH} characters`;
+  const sameLabel = fields.find(field => !field.deletedAt && field.label.toLowerCase() === label.toLowerCase());
+  if (sameLabel && sameLabel.key !== existing?.key) return 'Another field already has this label';
+
+  if (!CUSTOM_FIELD_TYPES.some(option => option.type === type)) {
+    return `type must be one of: ${CUSTOM_FIELD_TYPES.map(option => option.type).join(', ')}`;
+  }
+  if (existing && type !== existing.type) {
+    return "A field's type can't be changed; add a new field instead";
+  }
+  const input: CustomFieldInput = { label, type: type as CustomFieldType, required: required === true };
+
+  if (input.type === 'select') {
+    const options = Array.isArray(rawOptions)
+      ? [...new Set(rawOptions.filter((option): option is string => typeof option === 'string').map(option => option.trim()))].filter(Boolean)
+      : [];
+    if (options.length === 0) return 'Dropdown fields need at least one option';
+    if (options.length > MAX_OPTIONS) return `Dropdown fields can have at most ${MAX_OPTIONS} options`;
+    input.options = options;
+  }
+
+  if (input.type === 'number' || LENGTH_LIMITED_TYPES.includes(input.type)) {
+    if (!isLimit(min) || !isLimit(max)) return 'min and max must be numbers';
+    const lengths = input.type !== 'number';
+    if (lengths && [min, max].some(limit => typeof limit === 'number' && (limit < 0 || !Number.isInteger(limit)))) {
+      return 'Length limits must be whole numbers of at least 0';
+    }
+    if (typeof min === 'number' && typeof max === 'number' && min > max) return 'min must not be greater than max';
+    if (typeof min === 'number') input.min = min;
+    if (typeof max === 'number') input.max = max;
+  }
+
+  if (input.type === 'text' || input.type === 'textarea') {
+    const pattern = typeof rawPattern === 'string' ? rawPattern.trim() : '';
+    if (pattern && !isValidPattern(pattern)) return 'pattern must be a valid regular expression';
+    if (pattern) input.pattern = pattern;
+  }
+
+  return input;
+}
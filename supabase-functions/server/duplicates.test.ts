@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { dismissDuplicate, findDuplicatePairs } from './duplicates.ts';
+import { createMemoryKv } from './kv_store.ts';
+import type { UserEntry } from './types.ts';
+
+let added = 0;
+const entry = (id: string, fields: Pick<UserEntry, 'name' | 'mobile' | 'address'> & Partial<UserEntry>): UserEntry => ({
+  id,
+  dateAdded: new Date(Date.UTC(2026, 0, 1, 0, added++)).toISOString(),
+  userId: 'owner',
+  ...fields,
+});
+
+const boardOf = (entries: UserEntry[]) =>
+  createMemoryKv({ initial: Object.fromEntries(entries.map(e => [`user_entry:${e.id}`, e])) });
+
+const pairIds = async (entries: UserEntry[]) =>
+  (await findDuplicatePairs(boardOf(entries))).map(pair => pair.entries.map(e => e.id));
+
+describe('findDuplicatePairs', () => {
+  it('pairs entries with the same mobile however it was written', async () => {
+    const pairs = await findDuplicatePairs(boardOf([
+      entry('a', { name: 'Ann Lee', mobile: '+15551234567', address: '1 Main Street, Springfield' }),
+      entry('b', { name: 'Zed Moss', mobile: '+1 (555) 123-4567', address: '9 Elm Road, Shelbyville' }),
+    ]));
+    expect(pairs.map(pair => pair.entries.map(e => e.id))).toEqual([['b', 'a']]);
+    expect(pairs[0].reasons).toEqual(['mobile']);
+  });
+
+  it('pairs a similar name at a similar address', async () => {
+    expect(await pairIds([
+      entry('a', { name: 'Jonathan Smith', mobile: '+15550000001', address: '12 Oak Avenue, Springfield' }),
+      entry('b', { name: 'Jonathon Smith', mobile: '+15550000002', address: '12 Oak Ave., Springfield' }),
+    ])).toEqual([['b', 'a']]);
+  });
+
+  it('does not pair a similar name at another address', async () => {
+    expect(await pairIds([
+      entry('a', { name: 'Jonathan Smith', mobile: '+15550000001', address: '12 Oak Avenue, Springfield' }),
+      entry('b', { name: 'Jonathan Smith', mobile: '+15550000002', address: '40 Pine Lane, Shelbyville' }),
+    ])).toEqual([]);
+  });
+
+  it('lists each pair once when it matches on several grounds', async () => {
+    expect(await pairIds([
+      entry('a', { name: 'Ann Lee', mobile: '+15551234567', address: '1 Main Street, Springfield' }),
+      entry('b', { name: 'Ann Lee', mobile: '+15551234567', address: '1 Main Street, Springfield' }),
+    ])).toEqual([['b', 'a']]);
+  });
+
+  it('skips entries in the trash', async () => {
+    expect(await pairIds([
+      entry('a', { name: 'Ann Lee', mobile: '+15551234567', address: '1 Main Street, Springfield' }),
+      entry('b', { name: 'Ann Lee', mobile: '+15551234567', address: '1 Main Street, Springfield', deletedAt: '2026-02-01T00:00:00.000Z' }),
+    ])).toEqual([]);
+  });
+
+  it('skips pairs marked as not duplicates', async () => {
+    const kv = boardOf([
+      entry('a', { name: 'Ann Lee', mobile: '+15551234567', address: '1 Main Street, Springfield' }),
+      entry('b', { name: 'Zed Moss', mobile: '+15551234567', address: '9 Elm Road, Shelbyville' }),
+      entry('c', { name: 'Kim Park', mobile: '+15551234567', address: '3 Bay Street, Ogdenville' }),
+    ]);
+    await dismissDuplicate(kv, ['a', 'c'], 'admin');
+    expect((await findDuplicatePairs(kv)).map(pair => pair.entries.map(e => e.id))).toEqual([['c', 'b'], ['b', 'a']]);
+  });
+});
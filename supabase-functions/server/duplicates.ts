@@ -0,0 +1,134 @@
+import type { KvStore } from './kv_store.ts';
+import { normalizePhone } from './phone.ts';
+import type { DuplicatePair, DuplicateReason, UserEntry } from './types.ts';
+
+type EntryFields = Pick<UserEntry, 'name' | 'mobile' | 'address'>;
+
+const NAME_SIMILARITY = 0.85;
+const ADDRESS_SIMILARITY = 0.8;
+
+// Pairs an admin marked as "not a duplicate", keyed independently of order.
+const dismissedKey = (a: string, b: string) => `duplicate_dismissed:${[a, b].sort().join(':')}`;
+
+const normalizeText = (value: string) =>
+  value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// 1 for identical strings down to 0, based on edit distance.
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+}
+
+type Normalized = { mobile: string; name: string; address: string };
+
+const normalize = (entry: EntryFields): Normalized => ({
+  mobile: normalizePhone(entry.mobile),
+  name: normalizeText(entry.name),
+  address: normalizeText(entry.address),
+});
+
+// Strings whose lengths differ this much cannot reach `threshold`, which
+// skips most edit distance computations when scanning the whole board.
+const isSimilar = (a: string, b: string, threshold: number) =>
+  Math.min(a.length, b.length) >= threshold * Math.max(a.length, b.length) && similarity(a, b) >= threshold;
+
+function compare(a: Normalized, b: Normalized): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  if (a.mobile && a.mobile === b.mobile) reasons.push('mobile');
+  if (isSimilar(a.name, b.name, NAME_SIMILARITY)) reasons.push('name');
+  if (isSimilar(a.address, b.address, ADDRESS_SIMILARITY)) reasons.push('address');
+  return reasons;
+}
+
+// The same mobile number, or a similar name at a similar address.
+const isLikelyDuplicate = (reasons: DuplicateReason[]) =>
+  reasons.includes('mobile') || (reasons.includes('name') && reasons.includes('address'));
+
+const activeEntries = async (kv: KvStore) =>
+  (await kv.getByPrefix<UserEntry>('user_entry:')).filter(entry => !entry.deletedAt);
+
+// Reasons `candidate` looks like an entry already on the board; empty if none.
+// With `userId`, only that account's own entries are compared.
+export async function findDuplicateReasons(kv: KvStore, candidate: EntryFields, userId?: string): Promise<DuplicateReason[]> {
+  const target = normalize(candidate);
+  const reasons = new Set<DuplicateReason>();
+  const entries = (await activeEntries(kv)).filter(entry => userId === undefined || entry.userId === userId);
+  for (const entry of entries) {
+    const match = compare(target, normalize(entry));
+    if (isLikelyDuplicate(match)) {
+      match.forEach(reason => reasons.add(reason));
+    }
+  }
+  return [...reasons];
+}
+
+// Entries are only compared within groups sharing a mobile, or sharing both
+// the start of the name and the start of the address, so the board isn't
+// scanned pair by pair. Duplicates need the same mobile or a similar name and
+// address, so only pairs whose name or address differ in these first
+// characters are missed.
+const BLOCK_PREFIX_LENGTH = 3;
+
+function candidatePairs(normalized: Normalized[]): [number, number][] {
+  const blocks = new Map<string, number[]>();
+  const add = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) block.push(index);
+    else blocks.set(key, [index]);
+  };
+  normalized.forEach(({ mobile, name, address }, index) => {
+    if (mobile) add(`mobile:${mobile}`, index);
+    add(`name:${name.slice(0, BLOCK_PREFIX_LENGTH)}:${address.slice(0, BLOCK_PREFIX_LENGTH)}`, index);
+  });
+
+  // A pair can share both kinds of group; each is compared once
+  const pairs = new Set<number>();
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        pairs.add(block[i] * normalized.length + block[j]);
+      }
+    }
+  }
+  return [...pairs]
+    .sort((a, b) => a - b)
+    .map(pair => [Math.floor(pair / normalized.length), pair % normalized.length]);
+}
+
+// Every likely duplicate pair on the board that hasn't been dismissed,
+// newest first.
+export async function findDuplicatePairs(kv: KvStore): Promise<DuplicatePair[]> {
+  const entries = (await activeEntries(kv)).sort((a, b) => b.dateAdded.localeCompare(a.dateAdded));
+  const dismissed = new Set(
+    (await kv.getByPrefix<{ ids: [string, string] }>('duplicate_dismissed:')).map(({ ids }) => dismissedKey(...ids))
+  );
+  const normalized = entries.map(normalize);
+
+  const pairs: DuplicatePair[] = [];
+  for (const [i, j] of candidatePairs(normalized)) {
+    if (dismissed.has(dismissedKey(entries[i].id, entries[j].id))) continue;
+    const reasons = compare(normalized[i], normalized[j]);
+    if (isLikelyDuplicate(reasons)) {
+      pairs.push({ entries: [entries[i], entries[j]], reasons });
+    }
+  }
+  return pairs;
+}
+
+export async function dismissDuplicate(kv: KvStore, ids: [string, string], actorId: string): Promise<void> {
+  await kv.set(dismissedKey(...ids), { ids, actorId, dismissedAt: new Date().toISOString() });
+}
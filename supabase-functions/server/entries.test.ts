@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SORT, decodeCursor, parseSort, queryEntries } from './entries.ts';
+import { createMemoryKv } from './kv_store.ts';
+import type { EntryQuery, UserEntry } from './types.ts';
+
+const entry = (id: string, fields: Partial<UserEntry> = {}): UserEntry => ({
+  id,
+  name: `Person ${id}`,
+  mobile: '+15551230000',
+  address: '1 Main Street, Springfield',
+  dateAdded: '2026-01-01T00:00:00.000Z',
+  userId: 'owner',
+  ...fields,
+});
+
+const boardOf = (entries: UserEntry[]) =>
+  createMemoryKv({ initial: Object.fromEntries(entries.map(e => [`user_entry:${e.id}`, e])) });
+
+const query = (fields: Partial<EntryQuery> = {}): EntryQuery => ({ sort: DEFAULT_SORT, limit: 25, ...fields });
+
+describe('parseSort', () => {
+  it('defaults to newest first', () => {
+    expect(parseSort(undefined)).toEqual(DEFAULT_SORT);
+    expect(parseSort(' , ')).toEqual(DEFAULT_SORT);
+  });
+
+  it('reads fields in order with a - prefix for descending', () => {
+    expect(parseSort('name,-dateAdded')).toEqual([
+      { field: 'name', direction: 'asc' },
+      { field: 'dateAdded', direction: 'desc' },
+    ]);
+  });
+
+  it('keeps the first of repeated fields', () => {
+    expect(parseSort('-name,name')).toEqual([{ field: 'name', direction: 'desc' }]);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(parseSort('name,password')).toBeNull();
+  });
+});
+
+describe('decodeCursor', () => {
+  it('reads back the cursor of a page', async () => {
+    const kv = boardOf([entry('a'), entry('b')]);
+    const { nextCursor } = await queryEntries(kv, query({ sort: parseSort('name')!, limit: 1 }));
+    expect(decodeCursor(nextCursor!)).toEqual(['person a', 'a']);
+  });
+
+  it('rejects cursors that were not issued by the server', () => {
+    expect(decodeCursor('not base64!')).toBeNull();
+    expect(decodeCursor(btoa(encodeURIComponent(JSON.stringify({ id: 'a' }))))).toBeNull();
+    expect(decodeCursor(btoa(encodeURIComponent(JSON.stringify(['a', 1]))))).toBeNull();
+  });
+});
+
+describe('queryEntries', () => {
+  it('pages through every entry once, in sort order', async () => {
+    const kv = boardOf(['d', 'b', 'e', 'a', 'c'].map(id => entry(id)));
+    const sort = parseSort('name')!;
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await queryEntries(kv, query({ sort, limit: 2, cursor }));
+      expect(page.total).toBe(5);
+      seen.push(...page.entries.map(e => e.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('keeps later pages stable when earlier entries are removed', async () => {
+    const entries = ['a', 'b', 'c', 'd'].map(id => entry(id));
+    const kv = boardOf(entries);
+    const sort = parseSort('name')!;
+    const first = await queryEntries(kv, query({ sort, limit: 2 }));
+    await kv.del('user_entry:a');
+    const second = await queryEntries(kv, query({ sort, limit: 2, cursor: first.nextCursor! }));
+    expect(second.entries.map(e => e.id)).toEqual(['c', 'd']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('breaks ties by id', async () => {
+    const kv = boardOf([entry('b', { name: 'Same' }), entry('a', { name: 'Same' })]);
+    const page = await queryEntries(kv, query({ sort: parseSort('name')! }));
+    expect(page.entries.map(e => e.id)).toEqual(['a', 'b']);
+  });
+
+  it('lists the trash only when asked', async () => {
+    const kv = boardOf([entry('live'), entry('trashed', { deletedAt: '2026-02-01T00:00:00.000Z' })]);
+    expect((await queryEntries(kv, query())).entries.map(e => e.id)).toEqual(['live']);
+    expect((await queryEntries(kv, query({ deleted: true }))).entries.map(e => e.id)).toEqual(['trashed']);
+  });
+
+  it('filters by search term, tags and date', async () => {
+    const kv = boardOf([
+      entry('a', { name: 'Ann Lee', mobile: '+447700900123', tags: ['t1', 't2'], dateAdded: '2026-03-01T10:00:00.000Z' }),
+      entry('b', { name: 'Bob Ray', tags: ['t1'], dateAdded: '2026-03-02T10:00:00.000Z' }),
+    ]);
+    const ids = async (fields: Partial<EntryQuery>) => (await queryEntries(kv, query(fields))).entries.map(e => e.id);
+
+    expect(await ids({ q: 'ann' })).toEqual(['a']);
+    expect(await ids({ q: '07700 900123' })).toEqual(['a']);
+    expect(await ids({ tags: ['t1', 't2'] })).toEqual(['b', 'a']);
+    expect(await ids({ tags: ['t1', 't2'], tagMode: 'all' })).toEqual(['a']);
+    expect(await ids({ to: '2026-03-01' })).toEqual(['a']);
+    expect(await ids({ from: '2026-03-02' })).toEqual(['b']);
+  });
+});
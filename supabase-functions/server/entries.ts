@@ -0,0 +1,208 @@
+import type { KvStore } from './kv_store.ts';
+import { normalizePhone } from './phone.ts';
+import type { BatchSelection, EntryFilter, EntryPage, EntryQuery, SortField, SortSpec, UserEntry } from './types.ts';
+
+const entryKey = (id: string) => `user_entry:${id}`;
+
+export const SORT_FIELDS: SortField[] = ['name', 'mobile', 'address', 'dateAdded', 'deletedAt'];
+export const DEFAULT_SORT: SortSpec[] = [{ field: 'dateAdded', direction: 'desc' }];
+export const DEFAULT_LIMIT = 25;
+export const MAX_LIMIT = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mobiles are stored in E.164 but shown grouped, e.g. +1 555 123 4567, so a
+// term that looks like a phone number is compared digit by digit. A leading
+// 0 may be the trunk prefix that E.164 leaves out.
+const PHONE_TERM = /^[\d\s()+.-]+$/;
+
+const matchesMobile = (mobile: string, term: string) => {
+  if (!PHONE_TERM.test(term)) return false;
+  const digits = term.replace(/\D/g, '');
+  const stored = mobile.replace(/\D/g, '');
+  return digits !== '' && (stored.includes(digits) || (digits.startsWith('0') && stored.includes(digits.slice(1))));
+};
+
+// Parses `name,-dateAdded` into sort specs. Returns null for unknown fields.
+export function parseSort(value: string | undefined): SortSpec[] | null {
+  if (!value) return DEFAULT_SORT;
+  const specs: SortSpec[] = [];
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const direction = part.startsWith('-') ? 'desc' : 'asc';
+    const field = part.replace(/^[-+]/, '') as SortField;
+    if (!SORT_FIELDS.includes(field)) return null;
+    if (!specs.some(spec => spec.field === field)) {
+      specs.push({ field, direction });
+    }
+  }
+  return specs.length > 0 ? specs : DEFAULT_SORT;
+}
+
+// The cursor is the sort key of the last entry on the previous page, so
+// pages stay stable while entries are added or removed.
+type CursorKey = string[];
+
+const sortKey = (entry: UserEntry, sort: SortSpec[]): CursorKey => [
+  ...sort.map(({ field }) => field === 'name' || field === 'address' ? entry[field].toLowerCase() : entry[field] ?? ''),
+  entry.id,
+];
+
+const compareKeys = (a: CursorKey, b: CursorKey, sort: SortSpec[]) => {
+  for (let i = 0; i < a.length; i++) {
+    const result = a[i].localeCompare(b[i]);
+    if (result !== 0) {
+      return sort[i]?.direction === 'desc' ? -result : result;
+    }
+  }
+  return 0;
+};
+
+export function sortEntries(entries: UserEntry[], sort: SortSpec[]): UserEntry[] {
+  return entries
+    .map(entry => ({ entry, key: sortKey(entry, sort) }))
+    .sort((a, b) => compareKeys(a.key, b.key, sort))
+    .map(({ entry }) => entry);
+}
+
+const encodeCursor = (key: CursorKey) => btoa(encodeURIComponent(JSON.stringify(key)));
+
+export function decodeCursor(cursor: string): CursorKey | null {
+  try {
+    const key = JSON.parse(decodeURIComponent(atob(cursor)));
+    return Array.isArray(key) && key.every(part => typeof part === 'string') ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+// Accepts either a full ISO timestamp or a `YYYY-MM-DD` date. A bare `to`
+// date includes the whole day.
+const parseBound = (value: string | undefined, endOfDay: boolean) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) return null;
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + DAY_MS : time;
+};
+
+export function matchesQuery(entry: UserEntry, { q, from, to, tags, tagMode, deleted }: EntryFilter) {
+  if (Boolean(entry.deletedAt) !== Boolean(deleted)) return false;
+
+  if (q) {
+    const term = q.toLowerCase();
+    const matchesTerm =
+      entry.name.toLowerCase().includes(term) ||
+      matchesMobile(entry.mobile, term) ||
+      entry.address.toLowerCase().includes(term) ||
+      Object.values(entry.customFields ?? {}).some(
+        value => typeof value !== 'boolean' && String(value).toLowerCase().includes(term)
+      );
+    if (!matchesTerm) return false;
+  }
+
+  if (tags && tags.length > 0) {
+    const hasTag = (id: string) => entry.tags?.includes(id) ?? false;
+    if (!(tagMode === 'all' ? tags.every(hasTag) : tags.some(hasTag))) return false;
+  }
+
+  const added = new Date(entry.dateAdded).getTime();
+  const fromTime = parseBound(from, false);
+  const toTime = parseBound(to, true);
+  if (fromTime !== null && added < fromTime) return false;
+  if (toTime !== null && added >= toTime) return false;
+
+  return true;
+}
+
+export async function queryEntries(kv: KvStore, query: EntryQuery): Promise<EntryPage> {
+  const all = await kv.getByPrefix<UserEntry>('user_entry:');
+  const keyed = all
+    .filter(entry => matchesQuery(entry, query))
+    .map(entry => ({ entry, key: sortKey(entry, query.sort) }))
+    .sort((a, b) => compareKeys(a.key, b.key, query.sort));
+
+  const cursorKey = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = cursorKey
+    ? keyed.filter(({ key }) => compareKeys(key, cursorKey, query.sort) > 0)
+    : keyed;
+
+  const page = remaining.slice(0, query.limit);
+  const hasMore = remaining.length > query.limit;
+
+  return {
+    entries: page.map(({ entry }) => entry),
+    total: keyed.length,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
+
+export async function getEntryStats(kv: KvStore) {
+  const all = await kv.getByPrefix<UserEntry>('user_entry:');
+  const entries = all.filter(entry => !entry.deletedAt);
+  const weekAgo = Date.now() - 7 * DAY_MS;
+  return {
+    total: entries.length,
+    addedThisWeek: entries.filter(entry => new Date(entry.dateAdded).getTime() >= weekAgo).length,
+    trashed: all.length - entries.length,
+  };
+}
+
+// Entries added by `userId` that aren't in the trash, newest first.
+export async function listEntriesByUser(kv: KvStore, userId: string): Promise<UserEntry[]> {
+  const entries = await kv.getByPrefix<UserEntry>('user_entry:');
+  return sortEntries(entries.filter(entry => entry.userId === userId && !entry.deletedAt), DEFAULT_SORT);
+}
+
+// How many live entries each account created, by user id.
+export async function countEntriesByUser(kv: KvStore): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const entry of await kv.getByPrefix<UserEntry>('user_entry:')) {
+    if (!entry.deletedAt) counts[entry.userId] = (counts[entry.userId] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// Permanently removes trashed entries older than the retention period and
+// returns them.
+export async function purgeExpiredEntries(kv: KvStore, retentionDays: number): Promise<UserEntry[]> {
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const expired = (await kv.getByPrefix<UserEntry>('user_entry:'))
+    .filter(entry => entry.deletedAt && new Date(entry.deletedAt).getTime() < cutoff);
+  await deleteEntries(kv, expired.map(entry => entry.id));
+  return expired;
+}
+
+export async function getEntry(kv: KvStore, id: string): Promise<UserEntry | undefined> {
+  return kv.get<UserEntry>(entryKey(id));
+}
+
+export async function saveEntry(kv: KvStore, entry: UserEntry): Promise<void> {
+  await kv.set(entryKey(entry.id), entry);
+}
+
+export async function deleteEntry(kv: KvStore, id: string): Promise<void> {
+  await kv.del(entryKey(id));
+}
+
+export async function resolveSelection(kv: KvStore, selection: BatchSelection): Promise<UserEntry[]> {
+  if ('ids' in selection) {
+    return kv.mget<UserEntry>(selection.ids.map(entryKey));
+  }
+  const excluded = new Set(selection.excludeIds ?? []);
+  const all = await kv.getByPrefix<UserEntry>('user_entry:');
+  return all.filter(entry => !excluded.has(entry.id) && matchesQuery(entry, selection.filter));
+}
+
+export async function saveEntries(kv: KvStore, entries: UserEntry[]): Promise<void> {
+  await kv.mset(Object.fromEntries(entries.map(entry => [entryKey(entry.id), entry])));
+}
+
+export async function deleteEntries(kv: KvStore, ids: string[]): Promise<void> {
+  await kv.mdel(ids.map(entryKey));
+}
+
+// Returns the subset of `mobiles` (compared as parsed numbers) already on the board.
+export async function findExistingMobiles(kv: KvStore, mobiles: string[]): Promise<string[]> {
+  const entries = await kv.getByPrefix<UserEntry>('user_entry:');
+  const existing = new Set(entries.filter(entry => !entry.deletedAt).map(entry => normalizePhone(entry.mobile)));
+  return mobiles.filter(mobile => existing.has(normalizePhone(mobile)));
+}
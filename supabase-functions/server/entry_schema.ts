@@ -0,0 +1,161 @@
+// Validation rules for a person's details, shared by the server routes and
+// the app's forms (re-exported from src/lib/validation.ts) so both sides accept
+// exactly the same input. Only import other shared modules here.
+import { ADDRESS_FIELDS, formatAddress } from './address.ts';
+import { parseCustomFields } from './custom_field_schema.ts';
+import { DEFAULT_PHONE_COUNTRY, parsePhone, validatePhone } from './phone.ts';
+import type { AddressParts, CustomFieldDefinition, CustomFieldValue } from './types.ts';
+
+export type AddressField = keyof AddressParts;
+
+// Address parts and custom fields are reported by their path, e.g.
+// `addressParts.city` or `customFields.department`.
+export type EntryField =
+  | 'name'
+  | 'mobile'
+  | 'address'
+  | `addressParts.${AddressField}`
+  | `customFields.${string}`
+  | 'tags';
+
+export type EntryValues = {
+  name: string;
+  mobile: string;
+  // Always set; built from `addressParts` when those were given
+  address: string;
+  addressParts?: AddressParts;
+  // Only set when the input had custom fields or `creating` was given
+  customFields?: Record<string, CustomFieldValue>;
+  // Only set when the input had tags and `tagIds` was given
+  tags?: string[];
+};
+
+export type EntryParseOptions = {
+  // Country of mobiles given without a country code
+  phoneCountry?: string;
+  // Definitions to check `customFields` in the input against
+  customFields?: CustomFieldDefinition[];
+  // Set for input that creates an entry; missing `customFields` then counts
+  // as empty, so required custom fields are always enforced
+  creating?: boolean;
+  // Ids of the tags that can be attached; without it `tags` in the input is
+  // ignored
+  tagIds?: string[];
+};
+
+// One message per invalid field. 400 responses for entry input carry these
+// as `fieldErrors`, next to `error` with the first message.
+export type EntryFieldErrors = Partial<Record<EntryField, string>>;
+
+export type EntryParseResult =
+  | { success: true; data: EntryValues }
+  | { success: false; errors: EntryFieldErrors };
+
+// `min` 0 makes the field optional.
+type TextRule = { label: string; min: number; max: number };
+
+export const ENTRY_TEXT_RULES: Record<'name' | 'address', TextRule> = {
+  name: { label: 'Name', min: 2, max: 100 },
+  // The one-line address sent by older clients and imports
+  address: { label: 'Address', min: 10, max: 500 },
+};
+
+export const ADDRESS_PART_RULES: Record<AddressField, TextRule> = {
+  line1: { label: 'Address line 1', min: 1, max: 200 },
+  line2: { label: 'Address line 2', min: 0, max: 200 },
+  city: { label: 'City', min: 1, max: 100 },
+  state: { label: 'State or region', min: 0, max: 100 },
+  postalCode: { label: 'Postal code', min: 0, max: 20 },
+  country: { label: 'Country', min: 1, max: 100 },
+};
+
+// Every built-in field that can have an error, in form order. Custom fields
+// come after these.
+export const ENTRY_FIELDS: EntryField[] = [
+  'name',
+  'mobile',
+  'address',
+  ...ADDRESS_FIELDS.map(field => `addressParts.${field}` as const),
+];
+
+const checkText = (value: string, { label, min, max }: TextRule) => {
+  if (!value) return min > 0 ? `${label} is required` : null;
+  if (value.length < min) return `${label} must be at least ${min} characters`;
+  if (value.length > max) return `${label} must be at most ${max} characters`;
+  return null;
+};
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Checks `input` (a request body or form values) and returns the cleaned
+// values: text trimmed and the mobile in E.164. Mobiles without a country
+// code are read as numbers from `phoneCountry`. The address is taken from
+// `addressParts` when present, otherwise from the one-line `address`.
+// When updating, input without `customFields` leaves an entry's custom values
+// unchanged, so required custom fields are only enforced when they're sent.
+// The same goes for tags; ids of tags that no longer exist are dropped.
+export function parseEntry(
+  input: unknown,
+  { phoneCountry = DEFAULT_PHONE_COUNTRY, customFields: definitions = [], creating = false, tagIds }: EntryParseOptions = {}
+): EntryParseResult {
+  const raw = input && typeof input === 'object' ? input as Record<string, unknown> : {};
+
+  const name = asText(raw.name);
+  const mobile = asText(raw.mobile);
+
+  const errors: EntryFieldErrors = {};
+  const nameError = checkText(name, ENTRY_TEXT_RULES.name);
+  if (nameError) errors.name = nameError;
+  const mobileError = validatePhone(mobile, phoneCountry);
+  if (mobileError) errors.mobile = mobileError;
+
+  let address: string;
+  let addressParts: AddressParts | undefined;
+  if (raw.addressParts && typeof raw.addressParts === 'object') {
+    const rawParts = raw.addressParts as Record<string, unknown>;
+    addressParts = Object.fromEntries(
+      ADDRESS_FIELDS.map(field => [field, asText(rawParts[field])])
+    ) as AddressParts;
+    for (const field of ADDRESS_FIELDS) {
+      const error = checkText(addressParts[field], ADDRESS_PART_RULES[field]);
+      if (error) errors[`addressParts.${field}`] = error;
+    }
+    address = formatAddress(addressParts);
+  } else {
+    address = asText(raw.address);
+    const addressError = checkText(address, ENTRY_TEXT_RULES.address);
+    if (addressError) errors.address = addressError;
+  }
+
+  let customFields: Record<string, CustomFieldValue> | undefined;
+  if (raw.customFields !== undefined || creating) {
+    const parsed = parseCustomFields(raw.customFields, definitions);
+    customFields = parsed.values;
+    for (const [key, error] of Object.entries(parsed.errors)) {
+      errors[`customFields.${key}`] = error;
+    }
+  }
+
+  let tags: string[] | undefined;
+  if (raw.tags !== undefined && tagIds) {
+    if (Array.isArray(raw.tags) && raw.tags.every(tag => typeof tag === 'string')) {
+      tags = tagIds.filter(id => (raw.tags as string[]).includes(id));
+    } else {
+      errors.tags = 'Tags must be a list of tag ids';
+    }
+  }
+
+  const phone = parsePhone(mobile, phoneCountry);
+  if (Object.keys(errors).length > 0 || !phone) {
+    return { success: false, errors };
+  }
+  const data: EntryValues = { name, mobile: phone.e164, address };
+  if (addressParts) data.addressParts = addressParts;
+  if (customFields) data.customFields = customFields;
+  if (tags) data.tags = tags;
+  return { success: true, data };
+}
+
+// The message shown when only one line fits, e.g. in an import report.
+export const firstEntryError = (errors: EntryFieldErrors) =>
+  ENTRY_FIELDS.map(field => errors[field]).find(Boolean) ?? Object.values(errors).find(Boolean) ?? 'Invalid entry';
@@ -0,0 +1,109 @@
+import type { AddressParts, GeoPoint } from './types.ts';
+
+export type GeocoderName = 'none' | 'stub' | 'nominatim';
+
+export const GEOCODER_NAMES: GeocoderName[] = ['none', 'stub', 'nominatim'];
+
+export interface Geocoder {
+  // Resolves to null when the address can't be found.
+  geocode(address: AddressParts | string): Promise<GeoPoint | null>;
+  // Milliseconds to wait between lookups when geocoding many addresses.
+  minIntervalMs?: number;
+}
+
+const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// OpenStreetMap's Nominatim. The public instance allows about one request a
+// second and needs an identifying User-Agent; point `baseUrl` at your own
+// instance for heavier use.
+export function createNominatimGeocoder(baseUrl = DEFAULT_NOMINATIM_URL): Geocoder {
+  return {
+    minIntervalMs: baseUrl === DEFAULT_NOMINATIM_URL ? 1000 : 0,
+    async geocode(address) {
+      const params = new URLSearchParams({ format: 'jsonv2', limit: '1' });
+      if (typeof address === 'string') {
+        params.set('q', address);
+      } else {
+        params.set('street', [address.line1, address.line2].filter(Boolean).join(', '));
+        params.set('city', address.city);
+        if (address.state) params.set('state', address.state);
+        if (address.postalCode) params.set('postalcode', address.postalCode);
+        params.set('country', address.country);
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/search?${params}`, {
+        headers: { 'User-Agent': 'people-board/1.0' },
+      });
+      if (!response.ok) {
+        throw new Error(`Nominatim responded with ${response.status}`);
+      }
+      const [match] = (await response.json()) as { lat: string; lon: string }[];
+      return match ? { lat: Number(match.lat), lng: Number(match.lon) } : null;
+    },
+  };
+}
+
+const STUB_CITIES: Record<string, GeoPoint> = {
+  'new york': { lat: 40.7128, lng: -74.006 },
+  'los angeles': { lat: 34.0522, lng: -118.2437 },
+  chicago: { lat: 41.8781, lng: -87.6298 },
+  toronto: { lat: 43.6532, lng: -79.3832 },
+  london: { lat: 51.5074, lng: -0.1278 },
+  paris: { lat: 48.8566, lng: 2.3522 },
+  berlin: { lat: 52.52, lng: 13.405 },
+  mumbai: { lat: 19.076, lng: 72.8777 },
+  delhi: { lat: 28.6139, lng: 77.209 },
+  singapore: { lat: 1.3521, lng: 103.8198 },
+  sydney: { lat: -33.8688, lng: 151.2093 },
+};
+
+const hash = (value: string) => {
+  let result = 0;
+  for (const char of value) {
+    result = (result * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return result;
+};
+
+// Offline stand-in for local development. Known cities map to their real
+// coordinates, nudged per address so people don't stack up; anything else
+// gets a stable made-up point. Addresses containing "nowhere" aren't found.
+export function createStubGeocoder(): Geocoder {
+  return {
+    async geocode(address) {
+      const text = (typeof address === 'string' ? address : Object.values(address).join(' ')).toLowerCase();
+      if (!text.trim() || text.includes('nowhere')) return null;
+
+      const seed = hash(text);
+      const nudge = (shift: number) => (((seed >>> shift) & 0xff) / 0xff - 0.5) * 0.05;
+      const city = typeof address === 'string'
+        ? Object.keys(STUB_CITIES).find(name => text.includes(name))
+        : address.city.toLowerCase();
+      const base = city ? STUB_CITIES[city] : undefined;
+      if (base) {
+        return { lat: base.lat + nudge(0), lng: base.lng + nudge(8) };
+      }
+      return { lat: (seed % 12000) / 100 - 60, lng: (Math.floor(seed / 12000) % 36000) / 100 - 180 };
+    },
+  };
+}
+
+// Used when geocoding is turned off; entries are saved without a location.
+export function createNoopGeocoder(): Geocoder {
+  return {
+    async geocode() {
+      return null;
+    },
+  };
+}
+
+export function createGeocoder(name: GeocoderName, nominatimUrl?: string): Geocoder {
+  switch (name) {
+    case 'stub':
+      return createStubGeocoder();
+    case 'nominatim':
+      return createNominatimGeocoder(nominatimUrl);
+    default:
+      return createNoopGeocoder();
+  }
+}
@@ -0,0 +1,28 @@
+// Supabase Edge Function entry point (Deno).
+import { createClient } from '@supabase/supabase-js';
+import { createApp } from './app.ts';
+import { createSupabaseAuth } from './auth.ts';
+import { loadConfig } from './config.ts';
+import { createGeocoder } from './geocoding.ts';
+import { createSupabaseKv } from './kv_store.ts';
+import { createConsoleMailer } from './mailer.ts';
+import { createSupabaseNotifier } from './realtime.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const config = loadConfig((name) => Deno.env.get(name));
+
+const app = createApp({
+  kv: createSupabaseKv(supabase),
+  auth: createSupabaseAuth(supabase),
+  config,
+  notifier: createSupabaseNotifier(supabase),
+  geocoder: createGeocoder(config.geocoder, config.nominatimUrl),
+  // Invite emails show up in the function logs until a real transport is added
+  mailer: createConsoleMailer(),
+});
+
+Deno.serve(app.fetch);
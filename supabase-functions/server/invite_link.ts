@@ -0,0 +1,12 @@
+// The invite links the server emails, shared with the app (re-exported from
+// src/lib/users.ts), which reads the token back out of them. Only import
+// other shared modules here.
+
+// Invite links land on the app with this query parameter.
+export const INVITE_PARAM = 'invite';
+
+export function inviteLink(appUrl: string, token: string): string {
+  const link = new URL(appUrl);
+  link.searchParams.set(INVITE_PARAM, token);
+  return link.toString();
+}
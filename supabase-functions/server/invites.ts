@@ -0,0 +1,106 @@
+import { EMAIL_PATTERN } from './custom_field_schema.ts';
+import { inviteLink } from './invite_link.ts';
+import type { KvStore } from './kv_store.ts';
+import type { MailMessage } from './mailer.ts';
+import { ROLES } from './permissions.ts';
+import { parseRedirectTo } from './users.ts';
+import type { Invite, PendingInvite, Role } from './types.ts';
+
+const inviteKey = (id: string) => `invite:${id}`;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type InviteInput = {
+  email: string;
+  name: string;
+  role: Role;
+  // The app's URL; the emailed link adds the token to it
+  appUrl: string;
+};
+
+export function parseInviteInput(body: unknown): InviteInput | string {
+  const { email, name, role, appUrl } = (body ?? {}) as Record<string, unknown>;
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    return 'A valid email is required';
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    return 'name must be a string';
+  }
+  if (!ROLES.includes(role as Role)) {
+    return `role must be one of: ${ROLES.join(', ')}`;
+  }
+  const url = parseRedirectTo(appUrl);
+  if (!url) {
+    return 'appUrl must be an http(s) URL';
+  }
+  return { email: email.trim().toLowerCase(), name: (name ?? '').trim(), role: role as Role, appUrl: url };
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export async function hashInviteToken(token: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+// A new random token and the fields that go with it; the token itself is
+// only ever emailed.
+export async function issueInviteToken(ttlHours: number, now = new Date()) {
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  return {
+    token,
+    fields: {
+      tokenHash: await hashInviteToken(token),
+      sentAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlHours * HOUR_MS).toISOString(),
+    },
+  };
+}
+
+export const isInviteOpen = (invite: Invite) => !invite.acceptedAt && !invite.revokedAt;
+
+export const isInviteExpired = (invite: Invite, now = Date.now()) => new Date(invite.expiresAt).getTime() <= now;
+
+export function toPendingInvite(invite: Invite, now = Date.now()): PendingInvite {
+  const { id, email, name, role, invitedBy, invitedByEmail, createdAt, sentAt, expiresAt } = invite;
+  return { id, email, name, role, invitedBy, invitedByEmail, createdAt, sentAt, expiresAt, expired: isInviteExpired(invite, now) };
+}
+
+export async function getInvite(kv: KvStore, id: string) {
+  return kv.get<Invite>(inviteKey(id));
+}
+
+export async function saveInvite(kv: KvStore, invite: Invite) {
+  await kv.set(inviteKey(invite.id), invite);
+}
+
+// Invites that were neither accepted nor revoked, newest first.
+export async function listOpenInvites(kv: KvStore) {
+  return (await kv.getByPrefix<Invite>('invite:'))
+    .filter(isInviteOpen)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// The open invite the token was issued for, even if it has expired.
+export async function findInviteByToken(kv: KvStore, token: string) {
+  const tokenHash = await hashInviteToken(token);
+  return (await listOpenInvites(kv)).find(invite => invite.tokenHash === tokenHash) ?? null;
+}
+
+export function inviteMessage(invite: Invite, appUrl: string, token: string): MailMessage {
+  const greeting = invite.name ? `Hi ${invite.name},` : 'Hi,';
+  return {
+    to: invite.email,
+    subject: 'You have been invited to People Board',
+    text: [
+      greeting,
+      '',
+      `${invite.invitedByEmail} has invited you to People Board. Open this link to create your account:`,
+      '',
+      inviteLink(appUrl, token),
+      '',
+      `The link works once and expires on ${new Date(invite.expiresAt).toUTCString()}.`,
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const KV_TABLE = 'kv_store_f328fde2';
+
+// PostgREST returns at most `max-rows` rows (1000 by default) per request, so
+// prefix reads are fetched in pages no larger than that.
+const PREFIX_PAGE_SIZE = 1000;
+
+export interface KvStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  del(key: string): Promise<void>;
+  mget<T>(keys: string[]): Promise<T[]>;
+  mset(entries: Record<string, unknown>): Promise<void>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix<T>(prefix: string): Promise<T[]>;
+}
+
+interface MemoryKvOptions {
+  initial?: Record<string, unknown>;
+  onChange?: (snapshot: Record<string, unknown>) => void;
+}
+
+// Keeps everything in a Map. Used for local development; pass
+// `onChange` to persist the snapshot somewhere between restarts.
+export function createMemoryKv({ initial = {}, onChange }: MemoryKvOptions = {}): KvStore {
+  const data = new Map<string, unknown>(Object.entries(initial));
+
+  const notify = () => {
+    onChange?.(Object.fromEntries(data));
+  };
+
+  return {
+    async get<T>(key: string) {
+      return data.get(key) as T | undefined;
+    },
+    async set(key, value) {
+      data.set(key, value);
+      notify();
+    },
+    async del(key) {
+      data.delete(key);
+      notify();
+    },
+    async mget<T>(keys: string[]) {
+      return keys.filter(key => data.has(key)).map(key => data.get(key) as T);
+    },
+    async mset(entries) {
+      for (const [key, value] of Object.entries(entries)) {
+        data.set(key, value);
+      }
+      notify();
+    },
+    async mdel(keys) {
+      keys.forEach(key => data.delete(key));
+      notify();
+    },
+    async getByPrefix<T>(prefix: string) {
+      return Array.from(data.entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([, value]) => value as T);
+    },
+  };
+}
+
+// Backed by the `kv_store_f328fde2` table (key text primary key, value jsonb)
+// that the hosted edge function uses.
+export function createSupabaseKv(client: SupabaseClient, table = KV_TABLE): KvStore {
+  return {
+    async get<T>(key: string) {
+      const { data, error } = await client.from(table).select('value').eq('key', key).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data?.value as T | undefined;
+    },
+    async set(key, value) {
+      const { error } = await client.from(table).upsert({ key, value });
+      if (error) throw new Error(error.message);
+    },
+    async del(key) {
+      const { error } = await client.from(table).delete().eq('key', key);
+      if (error) throw new Error(error.message);
+    },
+    async mget<T>(keys: string[]) {
+      if (keys.length === 0) return [];
+      const { data, error } = await client.from(table).select('key, value').in('key', keys);
+      if (error) throw new Error(error.message);
+      return (data ?? []).map(row => row.value as T);
+    },
+    async mset(entries) {
+      const rows = Object.entries(entries).map(([key, value]) => ({ key, value }));
+      if (rows.length === 0) return;
+      const { error } = await client.from(table).upsert(rows);
+      if (error) throw new Error(error.message);
+    },
+    async mdel(keys) {
+      if (keys.length === 0) return;
+      const { error } = await client.from(table).delete().in('key', keys);
+      if (error) throw new Error(error.message);
+    },
+    // Ordered by key so pages don't overlap; a short page is the last one.
+    async getByPrefix<T>(prefix: string) {
+      const values: T[] = [];
+      for (let from = 0; ; from += PREFIX_PAGE_SIZE) {
+        const { data, error } = await client
+          .from(table)
+          .select('key, value')
+          .like('key', `${prefix}%`)
+          .order('key')
+          .range(from, from + PREFIX_PAGE_SIZE - 1);
+        if (error) throw new Error(error.message);
+        values.push(...(data ?? []).map(row => row.value as T));
+        if (!data || data.length < PREFIX_PAGE_SIZE) return values;
+      }
+    },
+  };
+}
@@ -0,0 +1,92 @@
+// Local development entry point (Node). Serves the same Hono app as the edge
+// function with an in-memory kv store:
+//
+//   npm run dev:api
+//
+// PORT           port to listen on (default 8787)
+// LOCAL_KV_FILE  optional JSON file the kv store is loaded from and saved to
+// TRASH_RETENTION_DAYS
+//                days deleted entries stay in the trash (default 30)
+// GEOCODER      none (default), stub (offline, made-up locations) or nominatim
+// NOMINATIM_URL  Nominatim instance for the nominatim geocoder
+// INVITE_TTL_HOURS
+//                hours invite links stay valid (default 72)
+// OWN_ENTRY_DELETE_HOURS
+//                hours users can delete their own entries for (default 24)
+// MAIL_FILE      optional file outgoing emails are appended to instead of
+//                being printed
+// SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY
+//                verify access tokens against a real project instead of
+//                trusting them unverified, and broadcast entry changes
+//                over its Realtime channel
+import { createServer, type IncomingMessage } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { appendFile } from 'node:fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import { createApp, FUNCTION_NAME } from './app.ts';
+import { createLocalAuth, createSupabaseAuth } from './auth.ts';
+import { loadConfig } from './config.ts';
+import { createGeocoder } from './geocoding.ts';
+import { createMemoryKv } from './kv_store.ts';
+import { createConsoleMailer, createFileMailer } from './mailer.ts';
+import { createNoopNotifier, createSupabaseNotifier } from './realtime.ts';
+
+const port = Number(process.env.PORT) || 8787;
+const kvFile = process.env.LOCAL_KV_FILE;
+const mailFile = process.env.MAIL_FILE;
+
+const kv = createMemoryKv({
+  initial: kvFile && existsSync(kvFile) ? JSON.parse(readFileSync(kvFile, 'utf8')) : {},
+  onChange: kvFile
+    ? (snapshot) => writeFileSync(kvFile, JSON.stringify(snapshot, null, 2))
+    : undefined,
+});
+
+const supabase =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    : null;
+
+const config = loadConfig((name) => process.env[name]);
+
+const app = createApp({
+  kv,
+  auth: supabase ? createSupabaseAuth(supabase) : createLocalAuth(kv),
+  config,
+  notifier: supabase ? createSupabaseNotifier(supabase) : createNoopNotifier(),
+  geocoder: createGeocoder(config.geocoder, config.nominatimUrl),
+  mailer: mailFile ? createFileMailer((text) => appendFile(mailFile, text)) : createConsoleMailer(),
+});
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+};
+
+createServer(async (req, res) => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(name, value);
+    else if (Array.isArray(value)) value.forEach(v => headers.append(name, v));
+  }
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  const response = await app.fetch(
+    new Request(`http://${req.headers.host ?? `localhost:${port}`}${req.url}`, {
+      method: req.method,
+      headers,
+      body: hasBody ? await readBody(req) : undefined,
+    })
+  );
+
+  res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}).listen(port, () => {
+  console.log(`People Board API listening on http://localhost:${port}/${FUNCTION_NAME}`);
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('Access tokens are NOT verified. Use this server for local development only.');
+  }
+});
@@ -0,0 +1,86 @@
+import { getEntry, saveEntry } from './entries.ts';
+import type { Geocoder } from './geocoding.ts';
+import type { KvStore } from './kv_store.ts';
+import type { GeoPoint, MapPoint, UserEntry } from './types.ts';
+
+// Kept small so a backfill request finishes quickly even though lookups are
+// spaced out by the geocoder's `minIntervalMs`.
+export const GEOCODE_BATCH_SIZE = 20;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Returns `entry` with the location of its address. Geocoding is best effort:
+// when it fails the entry is returned without a location rather than failing
+// the save.
+export async function locateEntry(geocoder: Geocoder, entry: UserEntry): Promise<UserEntry> {
+  const { location: _previous, ...rest } = entry;
+  try {
+    const location = await geocoder.geocode(entry.addressParts ?? entry.address);
+    return location ? { ...rest, location } : rest;
+  } catch (error) {
+    console.error('Geocoding error:', error);
+    return rest;
+  }
+}
+
+// Only looks the address up again when it changed.
+export const relocateEntry = (geocoder: Geocoder, previous: UserEntry, entry: UserEntry) =>
+  previous.address === entry.address && previous.location ? Promise.resolve(entry) : locateEntry(geocoder, entry);
+
+export async function listEntryLocations(kv: KvStore): Promise<{ points: MapPoint[]; unlocated: number }> {
+  const live = (await kv.getByPrefix<UserEntry>('user_entry:')).filter(entry => !entry.deletedAt);
+  const points: MapPoint[] = [];
+  for (const { id, name, address, location } of live) {
+    if (location) points.push({ id, name, address, location });
+  }
+  return { points, unlocated: live.length - points.length };
+}
+
+// Addresses the geocoder couldn't find, so the backfill doesn't retry them
+// until they change.
+type GeocodeMiss = { entryId: string; address: string };
+
+const missKey = (entryId: string) => `geocode_miss:${entryId}`;
+
+// Geocodes up to GEOCODE_BATCH_SIZE live entries that have no location yet,
+// oldest first. Returns the entries that were found and how many are left to
+// try. Each entry is read again before its location is written, so edits
+// made while the lookups run are kept. A failed lookup (network error, rate
+// limit) ends the batch without being recorded as a miss.
+export async function geocodeMissingEntries(kv: KvStore, geocoder: Geocoder): Promise<{ located: UserEntry[]; remaining: number }> {
+  const misses = new Map(
+    (await kv.getByPrefix<GeocodeMiss>('geocode_miss:')).map(miss => [miss.entryId, miss.address])
+  );
+  const pending = (await kv.getByPrefix<UserEntry>('user_entry:'))
+    .filter(entry => !entry.deletedAt && !entry.location && misses.get(entry.id) !== entry.address)
+    .sort((a, b) => a.dateAdded.localeCompare(b.dateAdded));
+
+  const located: UserEntry[] = [];
+  let attempted = 0;
+  for (const entry of pending.slice(0, GEOCODE_BATCH_SIZE)) {
+    if (attempted > 0 && geocoder.minIntervalMs) await sleep(geocoder.minIntervalMs);
+
+    let location: GeoPoint | null;
+    try {
+      location = await geocoder.geocode(entry.addressParts ?? entry.address);
+    } catch (error) {
+      console.error('Geocoding error:', error);
+      break;
+    }
+    attempted++;
+
+    if (!location) {
+      const miss: GeocodeMiss = { entryId: entry.id, address: entry.address };
+      await kv.set(missKey(entry.id), miss);
+      continue;
+    }
+    const current = await getEntry(kv, entry.id);
+    if (!current || current.deletedAt || current.address !== entry.address) continue;
+    const updated = { ...current, location };
+    await saveEntry(kv, updated);
+    await kv.del(missKey(entry.id));
+    located.push(updated);
+  }
+
+  return { located, remaining: pending.length - attempted };
+}
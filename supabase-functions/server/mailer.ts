@@ -0,0 +1,33 @@
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Sends the emails the server writes, such as invitations. Only stand-ins
+// are built in; implement this against an email API to deliver real mail.
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const formatMessage = ({ to, subject, text }: MailMessage) =>
+  `To: ${to}\nSubject: ${subject}\nDate: ${new Date().toISOString()}\n\n${text}\n`;
+
+// Prints each message to the logs instead of sending it.
+export function createConsoleMailer(log: (text: string) => void = console.log): Mailer {
+  return {
+    async send(message) {
+      log(`--- Outgoing email ---\n${formatMessage(message)}`);
+    },
+  };
+}
+
+// Appends each message to a file through `append`, so links can be picked up
+// from it during development.
+export function createFileMailer(append: (text: string) => Promise<void>): Mailer {
+  return {
+    async send(message) {
+      await append(`${formatMessage(message)}\n`);
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import type { MiddlewareHandler } from 'hono';
+import { can, isDisabled, type AuthProvider } from './auth.ts';
+import type { Permission } from './permissions.ts';
+import type { AppEnv } from './types.ts';
+
+export function requireUser(auth: AuthProvider): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const token = c.req.header('Authorization')?.split(' ')[1];
+    if (!token) {
+      return c.json({ error: 'Missing access token' }, 401);
+    }
+
+    const user = await auth.getUser(token);
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    // Tokens issued before the account was disabled stay valid until they expire.
+    if (isDisabled(user)) {
+      return c.json({ error: 'This account has been disabled' }, 403);
+    }
+
+    c.set('user', user);
+    await next();
+  };
+}
+
+// See ROLE_PERMISSIONS for what each role is allowed.
+export function requirePermission(permission: Permission): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (!can(c.get('user'), permission)) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+    await next();
+  };
+}
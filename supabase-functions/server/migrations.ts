@@ -0,0 +1,62 @@
+import type { KvStore } from './kv_store.ts';
+import { SYSTEM_ACTOR, buildAuditEvent, indexAuditEventsByEntry, recordAuditEvents } from './audit.ts';
+import { saveEntries } from './entries.ts';
+import { parsePhone } from './phone.ts';
+import type { UserEntry } from './types.ts';
+
+// One-off data changes, applied in order and recorded under
+// `migration:<id>` so each runs once per kv store.
+type Migration = {
+  id: string;
+  run: (kv: KvStore) => Promise<Record<string, unknown>>;
+};
+
+const migrationKey = (id: string) => `migration:${id}`;
+
+// Rewrites stored mobiles in E.164 form. Numbers without a country code are
+// read as DEFAULT_PHONE_COUNTRY; ones that still don't parse are left as-is.
+async function normalizeMobiles(kv: KvStore) {
+  const entries = await kv.getByPrefix<UserEntry>('user_entry:');
+  const updated: UserEntry[] = [];
+  const unparsed: string[] = [];
+  for (const entry of entries) {
+    const phone = parsePhone(entry.mobile);
+    if (!phone) {
+      unparsed.push(entry.id);
+    } else if (phone.e164 !== entry.mobile) {
+      updated.push({ ...entry, mobile: phone.e164 });
+    }
+  }
+
+  if (updated.length > 0) {
+    await saveEntries(kv, updated);
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    await recordAuditEvents(
+      kv,
+      updated.map(entry => buildAuditEvent('update', SYSTEM_ACTOR, byId.get(entry.id), entry))
+    );
+  }
+  if (unparsed.length > 0) {
+    console.warn(`Could not normalize the mobile number of ${unparsed.length} entries:`, unparsed);
+  }
+  return { updated: updated.length, unparsed };
+}
+
+// Stores a copy of every existing audit event under its entry; see audit.ts.
+async function indexAuditEvents(kv: KvStore) {
+  return { indexed: await indexAuditEventsByEntry(kv) };
+}
+
+const MIGRATIONS: Migration[] = [
+  { id: '2026-10-normalize-mobiles', run: normalizeMobiles },
+  { id: '2026-10-index-audit-events', run: indexAuditEvents },
+];
+
+export async function runPendingMigrations(kv: KvStore): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    if (await kv.get(migrationKey(migration.id))) continue;
+    const result = await migration.run(kv);
+    await kv.set(migrationKey(migration.id), { appliedAt: new Date().toISOString(), ...result });
+    console.log(`Applied migration ${migration.id}`, result);
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ROLES, ROLE_PERMISSIONS, hasPermission, type Permission } from './permissions.ts';
+import type { Role } from './types.ts';
+
+const ALL_PERMISSIONS = ROLE_PERMISSIONS.super_admin;
+
+const allowed = (role: Role) => ALL_PERMISSIONS.filter(permission => hasPermission(role, permission));
+
+describe('ROLE_PERMISSIONS', () => {
+  it('lets users only add entries', () => {
+    expect(allowed('user')).toEqual([]);
+  });
+
+  it('lets viewers only see the board', () => {
+    expect(allowed('viewer')).toEqual(['entries.view']);
+  });
+
+  it('lets editors see and edit, but not delete or export', () => {
+    expect(allowed('editor')).toEqual(['entries.view', 'entries.edit']);
+  });
+
+  it('lets exporters see and export, but not edit', () => {
+    expect(allowed('exporter')).toEqual(['entries.view', 'entries.export']);
+  });
+
+  it('lets super admins do everything', () => {
+    expect(allowed('super_admin')).toEqual(ALL_PERMISSIONS);
+  });
+
+  it('keeps account management to super admins', () => {
+    expect(ROLES.filter(role => hasPermission(role, 'users.manage'))).toEqual(['super_admin']);
+  });
+
+  it('grants nothing to a role it does not know', () => {
+    expect(hasPermission('owner' as Role, 'entries.view' as Permission)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+// What each role may do, shared by the server routes and the app (re-exported
+// from src/lib/permissions.ts), which hides anything the server would refuse.
+// Only import other shared modules here.
+import type { Role } from './types.ts';
+
+export type Permission =
+  // The dashboard: listing, searching, the map and each entry's history
+  | 'entries.view'
+  // Editing, tagging, reassigning and locating entries
+  | 'entries.edit'
+  // Moving entries to the trash, restoring, purging and merging duplicates
+  | 'entries.delete'
+  | 'entries.export'
+  | 'entries.import'
+  // Tags, custom fields and the audit log
+  | 'board.manage'
+  // Accounts and invites
+  | 'users.manage';
+
+// Adding entries needs no permission; any signed-in account can.
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [],
+  viewer: ['entries.view'],
+  editor: ['entries.view', 'entries.edit'],
+  exporter: ['entries.view', 'entries.export'],
+  super_admin: [
+    'entries.view',
+    'entries.edit',
+    'entries.delete',
+    'entries.export',
+    'entries.import',
+    'board.manage',
+    'users.manage',
+  ],
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+// A role this version doesn't know, e.g. one set by a newer release, grants nothing.
+export const hasPermission = (role: Role, permission: Permission) =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
@@ -0,0 +1,136 @@
+// Phone number parsing, validation and formatting shared by the server and
+// the app (re-exported from src/lib/phone.ts), so it must not import anything.
+// Numbers are stored in E.164 form, e.g. +15551234567.
+
+export type PhoneCountry = {
+  // ISO 3166-1 alpha-2
+  code: string;
+  name: string;
+  dialCode: string;
+  // Valid national number lengths, without the trunk prefix
+  lengths: number[];
+  // Dialled before national numbers inside the country, e.g. 0 in 020 7946 0018
+  trunkPrefix?: string;
+  // Digit groups used for display; extra digits join the last group
+  groups: number[];
+};
+
+export type ParsedPhone = {
+  country: PhoneCountry;
+  nationalNumber: string;
+  e164: string;
+};
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'US', name: 'United States', dialCode: '1', lengths: [10], groups: [3, 3, 4] },
+  { code: 'CA', name: 'Canada', dialCode: '1', lengths: [10], groups: [3, 3, 4] },
+  { code: 'MX', name: 'Mexico', dialCode: '52', lengths: [10], groups: [3, 3, 4] },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', lengths: [10], trunkPrefix: '0', groups: [4, 6] },
+  { code: 'IE', name: 'Ireland', dialCode: '353', lengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  { code: 'FR', name: 'France', dialCode: '33', lengths: [9], trunkPrefix: '0', groups: [1, 2, 2, 2, 2] },
+  { code: 'DE', name: 'Germany', dialCode: '49', lengths: [10, 11], trunkPrefix: '0', groups: [3, 4, 4] },
+  { code: 'ES', name: 'Spain', dialCode: '34', lengths: [9], groups: [3, 3, 3] },
+  { code: 'IT', name: 'Italy', dialCode: '39', lengths: [9, 10], groups: [3, 3, 4] },
+  { code: 'NL', name: 'Netherlands', dialCode: '31', lengths: [9], trunkPrefix: '0', groups: [1, 4, 4] },
+  { code: 'IN', name: 'India', dialCode: '91', lengths: [10], trunkPrefix: '0', groups: [5, 5] },
+  { code: 'PK', name: 'Pakistan', dialCode: '92', lengths: [10], trunkPrefix: '0', groups: [3, 7] },
+  { code: 'BD', name: 'Bangladesh', dialCode: '880', lengths: [10], trunkPrefix: '0', groups: [4, 6] },
+  { code: 'PH', name: 'Philippines', dialCode: '63', lengths: [10], trunkPrefix: '0', groups: [3, 3, 4] },
+  { code: 'SG', name: 'Singapore', dialCode: '65', lengths: [8], groups: [4, 4] },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971', lengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  { code: 'SA', name: 'Saudi Arabia', dialCode: '966', lengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  { code: 'NG', name: 'Nigeria', dialCode: '234', lengths: [10], trunkPrefix: '0', groups: [3, 3, 4] },
+  { code: 'KE', name: 'Kenya', dialCode: '254', lengths: [9], trunkPrefix: '0', groups: [3, 6] },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', lengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  { code: 'AU', name: 'Australia', dialCode: '61', lengths: [9], trunkPrefix: '0', groups: [3, 3, 3] },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64', lengths: [8, 9, 10], trunkPrefix: '0', groups: [2, 3, 3] },
+];
+
+// Assumed for numbers entered without a country code
+export const DEFAULT_PHONE_COUNTRY = 'US';
+
+export const findPhoneCountry = (code: string) =>
+  PHONE_COUNTRIES.find(country => country.code === code.toUpperCase());
+
+const build = (country: PhoneCountry, nationalNumber: string): ParsedPhone => ({
+  country,
+  nationalNumber,
+  e164: `+${country.dialCode}${nationalNumber}`,
+});
+
+// Accepts "+44 20 7946 0018", "0044 20...", "020 7946 0018" (with `country`
+// GB) or "(555) 123-4567". Returns null when the number isn't valid.
+export function parsePhone(input: string, country: string = DEFAULT_PHONE_COUNTRY): ParsedPhone | null {
+  const trimmed = input.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+
+  const fallback = findPhoneCountry(country) ?? findPhoneCountry(DEFAULT_PHONE_COUNTRY)!;
+  let international = trimmed.startsWith('+');
+  if (!international && digits.startsWith('00')) {
+    international = true;
+    digits = digits.slice(2);
+  }
+
+  if (international) {
+    // Longest dial code first; where countries share one (+1) prefer `country`
+    const candidates = PHONE_COUNTRIES
+      .filter(candidate => digits.startsWith(candidate.dialCode))
+      .sort((a, b) =>
+        b.dialCode.length - a.dialCode.length || Number(b === fallback) - Number(a === fallback)
+      );
+    for (const candidate of candidates) {
+      const national = digits.slice(candidate.dialCode.length);
+      if (candidate.lengths.includes(national.length)) return build(candidate, national);
+    }
+    return null;
+  }
+
+  // National numbers never start with the trunk prefix, so it is always dropped
+  const { trunkPrefix, dialCode, lengths } = fallback;
+  let national = digits;
+  if (trunkPrefix && national.startsWith(trunkPrefix)) {
+    national = national.slice(trunkPrefix.length);
+  } else if (!lengths.includes(national.length) && national.startsWith(dialCode)) {
+    // Country code typed without the +
+    national = national.slice(dialCode.length);
+  }
+  return lengths.includes(national.length) ? build(fallback, national) : null;
+}
+
+// Error message for an invalid number, or null if it is valid.
+export function validatePhone(input: string, country: string = DEFAULT_PHONE_COUNTRY): string | null {
+  if (!input.trim()) return 'Mobile number is required';
+  if (parsePhone(input, country)) return null;
+  const selected = findPhoneCountry(country);
+  if (input.trim().startsWith('+') || !selected) {
+    return 'Please enter a valid mobile number, including the country code';
+  }
+  return `Please enter a valid ${selected.name} mobile number (${selected.lengths.join(' or ')} digits)`;
+}
+
+const groupDigits = (digits: string, groups: number[]) => {
+  const parts: string[] = [];
+  let offset = 0;
+  groups.forEach((size, index) => {
+    const end = index === groups.length - 1 ? digits.length : offset + size;
+    if (offset < digits.length) parts.push(digits.slice(offset, end));
+    offset = end;
+  });
+  return parts.join(' ');
+};
+
+// National number grouped for display, e.g. "555 123 4567".
+export const formatNationalNumber = (phone: ParsedPhone) =>
+  groupDigits(phone.nationalNumber, phone.country.groups);
+
+// International display form, e.g. "+1 555 123 4567". Values that don't parse
+// (legacy data) are shown as stored.
+export function formatPhone(value: string): string {
+  const phone = parsePhone(value);
+  return phone ? `+${phone.country.dialCode} ${formatNationalNumber(phone)}` : value;
+}
+
+// Key for comparing numbers regardless of how they were typed.
+export const normalizePhone = (value: string, country: string = DEFAULT_PHONE_COUNTRY) =>
+  parsePhone(value, country)?.e164 ?? value.replace(/\D/g, '');
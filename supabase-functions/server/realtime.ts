@@ -0,0 +1,43 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EntryChange } from './types.ts';
+
+// Dashboards subscribe to this Realtime broadcast channel.
+export const ENTRY_CHANGES_CHANNEL = 'user-entry-changes';
+export const ENTRY_CHANGE_EVENT = 'entry_change';
+
+export interface ChangeNotifier {
+  notify(change: EntryChange): Promise<void>;
+}
+
+// Realtime is best effort; a failed broadcast must not fail the write that
+// caused it.
+export async function notifySafely(notifier: ChangeNotifier, change: EntryChange): Promise<void> {
+  try {
+    await notifier.notify(change);
+  } catch (error) {
+    console.error('Entry change broadcast error:', error);
+  }
+}
+
+// Broadcasts only entry ids; subscribers fetch the entries through the API so
+// nothing is exposed to clients that cannot read them.
+export function createSupabaseNotifier(client: SupabaseClient): ChangeNotifier {
+  const channel = client.channel(ENTRY_CHANGES_CHANNEL);
+  return {
+    async notify(change) {
+      if (change.ids.length === 0) return;
+      // Without a subscription the message is sent over the REST API
+      const result = await channel.send({ type: 'broadcast', event: ENTRY_CHANGE_EVENT, payload: change });
+      if (result !== 'ok') {
+        console.error('Broadcast entry change error:', result);
+      }
+    },
+  };
+}
+
+// Used when no Realtime project is configured, e.g. the local server.
+export function createNoopNotifier(): ChangeNotifier {
+  return {
+    async notify() {},
+  };
+}
@@ -0,0 +1,36 @@
+import { Hono } from 'hono';
+import { queryAuditEvents } from '../audit.ts';
+import { DEFAULT_LIMIT, MAX_LIMIT } from '../entries.ts';
+import { requirePermission, requireUser } from '../middleware.ts';
+import type { AppDeps } from '../app.ts';
+import type { AppEnv } from '../types.ts';
+
+export function auditRoutes({ kv, auth }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+
+  routes.use('*', requireUser(auth), requirePermission('board.manage'));
+
+  // GET /audit?actorId=&entryId=&from=&to=&limit=&cursor=
+  routes.get('/', async (c) => {
+    const { actorId, entryId, from, to, limit: limitParam, cursor } = c.req.query();
+
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return c.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, 400);
+    }
+    if ((from && Number.isNaN(Date.parse(from))) || (to && Number.isNaN(Date.parse(to)))) {
+      return c.json({ error: 'from and to must be valid dates' }, 400);
+    }
+
+    return c.json(await queryAuditEvents(kv, {
+      actorId: actorId?.trim() || undefined,
+      entryId: entryId?.trim() || undefined,
+      from,
+      to,
+      limit,
+      cursor,
+    }));
+  });
+
+  return routes;
+}
@@ -0,0 +1,97 @@
+import { Hono } from 'hono';
+import {
+  MAX_CUSTOM_FIELDS,
+  getCustomFieldDefinitions,
+  listCustomFields,
+  makeFieldKey,
+  parseCustomFieldInput,
+  saveCustomFieldDefinitions,
+} from '../custom_fields.ts';
+import { requirePermission, requireUser } from '../middleware.ts';
+import type { AppDeps } from '../app.ts';
+import type { AppEnv, CustomFieldDefinition } from '../types.ts';
+
+export function customFieldsRoutes({ kv, auth }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+
+  routes.use('*', requireUser(auth));
+
+  // Every signed-in user fills the fields in, so anyone can list them
+  routes.get('/', async (c) => {
+    return c.json({ fields: await listCustomFields(kv) });
+  });
+
+  routes.post('/', requirePermission('board.manage'), async (c) => {
+    const definitions = await getCustomFieldDefinitions(kv);
+    if (definitions.filter(field => !field.deletedAt).length >= MAX_CUSTOM_FIELDS) {
+      return c.json({ error: `At most ${MAX_CUSTOM_FIELDS} custom fields can be defined` }, 400);
+    }
+
+    const input = parseCustomFieldInput(await c.req.json().catch(() => null), definitions);
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const field: CustomFieldDefinition = { ...input, key: makeFieldKey(input.label, definitions.map(f => f.key)) };
+    await saveCustomFieldDefinitions(kv, [...definitions, field]);
+
+    return c.json({ field }, 201);
+  });
+
+  // PUT /custom-fields/order with every live key in the new order
+  routes.put('/order', requirePermission('board.manage'), async (c) => {
+    const { keys } = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const definitions = await getCustomFieldDefinitions(kv);
+    const live = definitions.filter(field => !field.deletedAt);
+    if (
+      !Array.isArray(keys) ||
+      keys.length !== live.length ||
+      new Set(keys).size !== keys.length ||
+      !live.every(field => keys.includes(field.key))
+    ) {
+      return c.json({ error: 'keys must list every custom field once' }, 400);
+    }
+
+    const ordered = keys.map(key => live.find(field => field.key === key)!);
+    await saveCustomFieldDefinitions(kv, [...ordered, ...definitions.filter(field => field.deletedAt)]);
+
+    return c.json({ fields: ordered });
+  });
+
+  routes.put('/:key', requirePermission('board.manage'), async (c) => {
+    const definitions = await getCustomFieldDefinitions(kv);
+    const existing = definitions.find(field => field.key === c.req.param('key') && !field.deletedAt);
+    if (!existing) {
+      return c.json({ error: 'Custom field not found' }, 404);
+    }
+
+    const input = parseCustomFieldInput(await c.req.json().catch(() => null), definitions, existing);
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    // Stored values aren't rechecked; they're validated again the next time
+    // the entry is saved
+    const field: CustomFieldDefinition = { ...input, key: existing.key };
+    await saveCustomFieldDefinitions(kv, definitions.map(f => (f.key === field.key ? field : f)));
+
+    return c.json({ field });
+  });
+
+  // Hides the field from forms, exports and conflict checks. Saved values stay
+  // on each entry until it's next edited, and in its history.
+  routes.delete('/:key', requirePermission('board.manage'), async (c) => {
+    const definitions = await getCustomFieldDefinitions(kv);
+    const existing = definitions.find(field => field.key === c.req.param('key') && !field.deletedAt);
+    if (!existing) {
+      return c.json({ error: 'Custom field not found' }, 404);
+    }
+
+    const deletedAt = new Date().toISOString();
+    await saveCustomFieldDefinitions(kv, definitions.map(f => (f.key === existing.key ? { ...f, deletedAt } : f)));
+
+    return c.json({ success: true });
+  });
+
+  return routes;
+}
@@ -0,0 +1,114 @@
+import { Hono } from 'hono';
+import {
+  getInvite,
+  inviteMessage,
+  isInviteExpired,
+  isInviteOpen,
+  issueInviteToken,
+  listOpenInvites,
+  parseInviteInput,
+  saveInvite,
+  toPendingInvite,
+} from '../invites.ts';
+import { requirePermission, requireUser } from '../middleware.ts';
+import { parseRedirectTo } from '../users.ts';
+import type { AppDeps } from '../app.ts';
+import type { AppEnv, Invite } from '../types.ts';
+
+// Invites are accepted through the public /signup/invite routes.
+export function invitesRoutes({ kv, auth, config, mailer }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+
+  routes.use('*', requireUser(auth), requirePermission('users.manage'));
+
+  // Nothing is saved when the email can't be sent, so the admin can retry.
+  const send = async (invite: Invite, appUrl: string, token: string) => {
+    try {
+      await mailer.send(inviteMessage(invite, appUrl, token));
+      return true;
+    } catch (error) {
+      console.error('Send invite error:', error);
+      return false;
+    }
+  };
+
+  // Invites waiting to be accepted, including expired ones that can be resent
+  routes.get('/', async (c) => {
+    return c.json({ invites: (await listOpenInvites(kv)).map(invite => toPendingInvite(invite)) });
+  });
+
+  // POST /invites { email, name, role, appUrl } emails a link to `appUrl`
+  routes.post('/', async (c) => {
+    const input = parseInviteInput(await c.req.json().catch(() => null));
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const users = await auth.listUsers();
+    if (users.some(user => user.email.toLowerCase() === input.email)) {
+      return c.json({ error: 'An account with this email already exists' }, 409);
+    }
+    const open = (await listOpenInvites(kv)).filter(invite => invite.email === input.email);
+    if (open.some(invite => !isInviteExpired(invite))) {
+      return c.json({ error: 'This email already has a pending invite; resend it instead' }, 409);
+    }
+
+    const user = c.get('user');
+    const now = new Date();
+    const { token, fields } = await issueInviteToken(config.inviteTtlHours, now);
+    const invite: Invite = {
+      id: crypto.randomUUID(),
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      invitedBy: user.id,
+      invitedByEmail: user.email,
+      createdAt: now.toISOString(),
+      ...fields,
+    };
+    if (!(await send(invite, input.appUrl, token))) {
+      return c.json({ error: 'Failed to send the invite email' }, 502);
+    }
+
+    // Expired invites to the same address are replaced by the new one
+    await Promise.all(open.map(expired => saveInvite(kv, { ...expired, revokedAt: invite.createdAt })));
+    await saveInvite(kv, invite);
+
+    return c.json({ invite: toPendingInvite(invite) }, 201);
+  });
+
+  // POST /invites/:id/resend { appUrl } emails a new link; the old one stops working
+  routes.post('/:id/resend', async (c) => {
+    const { appUrl } = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const url = parseRedirectTo(appUrl);
+    if (!url) {
+      return c.json({ error: 'appUrl must be an http(s) URL' }, 400);
+    }
+
+    const existing = await getInvite(kv, c.req.param('id'));
+    if (!existing || !isInviteOpen(existing)) {
+      return c.json({ error: 'Invite not found' }, 404);
+    }
+
+    const { token, fields } = await issueInviteToken(config.inviteTtlHours);
+    const invite: Invite = { ...existing, ...fields };
+    if (!(await send(invite, url, token))) {
+      return c.json({ error: 'Failed to send the invite email' }, 502);
+    }
+    await saveInvite(kv, invite);
+
+    return c.json({ invite: toPendingInvite(invite) });
+  });
+
+  routes.delete('/:id', async (c) => {
+    const existing = await getInvite(kv, c.req.param('id'));
+    if (!existing || !isInviteOpen(existing)) {
+      return c.json({ error: 'Invite not found' }, 404);
+    }
+
+    await saveInvite(kv, { ...existing, revokedAt: new Date().toISOString() });
+    return c.json({ success: true });
+  });
+
+  return routes;
+}
@@ -0,0 +1,107 @@
+import { Hono } from 'hono';
+import { requirePermission, requireUser } from '../middleware.ts';
+import {
+  MAX_VIEWS_PER_OWNER,
+  deleteView,
+  getPinnedViewIds,
+  getView,
+  listVisibleViews,
+  parseSavedViewInput,
+  savePinnedViewIds,
+  saveView,
+} from '../saved_views.ts';
+import type { AppDeps } from '../app.ts';
+import type { AppEnv, SavedView } from '../types.ts';
+
+export function savedViewsRoutes({ kv, auth }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+
+  routes.use('*', requireUser(auth), requirePermission('entries.view'));
+
+  // The views the user can use, and which of them are pinned as quick tabs
+  routes.get('/', async (c) => {
+    const userId = c.get('user').id;
+    const views = await listVisibleViews(kv, userId);
+    const pinnedIds = (await getPinnedViewIds(kv, userId)).filter(id => views.some(view => view.id === id));
+    return c.json({ views, pinnedIds });
+  });
+
+  routes.post('/', async (c) => {
+    const user = c.get('user');
+    const owned = (await listVisibleViews(kv, user.id)).filter(view => view.ownerId === user.id);
+    if (owned.length >= MAX_VIEWS_PER_OWNER) {
+      return c.json({ error: `At most ${MAX_VIEWS_PER_OWNER} views can be saved` }, 400);
+    }
+
+    const input = parseSavedViewInput(await c.req.json().catch(() => null));
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const view: SavedView = {
+      ...input,
+      id: crypto.randomUUID(),
+      ownerId: user.id,
+      ownerEmail: user.email,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await saveView(kv, view);
+
+    return c.json({ view }, 201);
+  });
+
+  // PUT /saved-views/pins with the ids of the views to pin, in tab order
+  routes.put('/pins', async (c) => {
+    const userId = c.get('user').id;
+    const { ids } = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const views = await listVisibleViews(kv, userId);
+    if (
+      !Array.isArray(ids) ||
+      new Set(ids).size !== ids.length ||
+      !ids.every(id => views.some(view => view.id === id))
+    ) {
+      return c.json({ error: 'ids must list saved views, each once' }, 400);
+    }
+
+    await savePinnedViewIds(kv, userId, ids);
+    return c.json({ pinnedIds: ids });
+  });
+
+  routes.put('/:id', async (c) => {
+    const existing = await getView(kv, c.req.param('id'));
+    if (!existing || (existing.ownerId !== c.get('user').id && !existing.shared)) {
+      return c.json({ error: 'Saved view not found' }, 404);
+    }
+    if (existing.ownerId !== c.get('user').id) {
+      return c.json({ error: 'Only the person who saved this view can change it' }, 403);
+    }
+
+    const input = parseSavedViewInput(await c.req.json().catch(() => null));
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const view: SavedView = { ...existing, ...input, updatedAt: new Date().toISOString() };
+    await saveView(kv, view);
+
+    return c.json({ view });
+  });
+
+  // Other people's pins of the view are dropped the next time they list views
+  routes.delete('/:id', async (c) => {
+    const existing = await getView(kv, c.req.param('id'));
+    if (!existing || (existing.ownerId !== c.get('user').id && !existing.shared)) {
+      return c.json({ error: 'Saved view not found' }, 404);
+    }
+    if (existing.ownerId !== c.get('user').id) {
+      return c.json({ error: 'Only the person who saved this view can delete it' }, 403);
+    }
+
+    await deleteView(kv, existing.id);
+    return c.json({ success: true });
+  });
+
+  return routes;
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApp, FUNCTION_NAME } from '../app.ts';
+import { createLocalAuth } from '../auth.ts';
+import { loadConfig } from '../config.ts';
+import { createNoopGeocoder } from '../geocoding.ts';
+import { INVITE_PARAM } from '../invite_link.ts';
+import { createMemoryKv } from '../kv_store.ts';
+import type { MailMessage } from '../mailer.ts';
+import { createNoopNotifier } from '../realtime.ts';
+
+// The local auth provider reads tokens without checking their signature.
+const ADMIN_TOKEN = ['{"alg":"none"}', JSON.stringify({ sub: 'admin', email: 'admin@example.com', app_metadata: { role: 'super_admin' } })]
+  .map(part => btoa(part).replace(/=+$/, ''))
+  .join('.') + '.signature';
+
+describe('POST /signup/invite', () => {
+  let sent: MailMessage[];
+  let app: ReturnType<typeof createApp>;
+
+  const call = async (method: string, path: string, body?: unknown, token?: string) => {
+    const response = await app.request(`/${FUNCTION_NAME}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const invite = async (email: string) => {
+    const { status } = await call('POST', '/invites', { email, name: '', role: 'editor', appUrl: 'https://app.example.com/' }, ADMIN_TOKEN);
+    expect(status).toBe(201);
+    return new URL(sent[sent.length - 1].text.match(/https:\S+/)![0]).searchParams.get(INVITE_PARAM)!;
+  };
+
+  beforeEach(() => {
+    // Keep the request log out of the test output
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    sent = [];
+    const kv = createMemoryKv();
+    app = createApp({
+      kv,
+      auth: createLocalAuth(kv),
+      config: loadConfig(() => undefined),
+      notifier: createNoopNotifier(),
+      geocoder: createNoopGeocoder(),
+      mailer: { send: async (message) => void sent.push(message) },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('creates the account with the invited email and role', async () => {
+    const token = await invite('new@example.com');
+    const { status, body } = await call('POST', '/signup/invite', { token, name: 'New Person', password: 'secret1' });
+    expect(status).toBe(201);
+    expect(body.user).toMatchObject({ email: 'new@example.com', app_metadata: { role: 'editor' } });
+  });
+
+  it('accepts each invite link only once', async () => {
+    const token = await invite('new@example.com');
+    expect((await call('POST', '/signup/invite', { token, name: 'New Person', password: 'secret1' })).status).toBe(201);
+
+    const again = await call('POST', '/signup/invite', { token, name: 'Someone Else', password: 'secret2' });
+    expect(again.status).toBe(404);
+    expect((await call('GET', `/signup/invite/${token}`)).status).toBe(404);
+  });
+
+  it('stops accepting the old link once the invite is resent', async () => {
+    const oldToken = await invite('new@example.com');
+    const { body } = await call('GET', '/invites', undefined, ADMIN_TOKEN);
+    await call('POST', `/invites/${body.invites[0].id}/resend`, { appUrl: 'https://app.example.com/' }, ADMIN_TOKEN);
+    const newToken = new URL(sent[sent.length - 1].text.match(/https:\S+/)![0]).searchParams.get(INVITE_PARAM)!;
+
+    expect((await call('POST', '/signup/invite', { token: oldToken, name: 'New Person', password: 'secret1' })).status).toBe(404);
+    expect((await call('POST', '/signup/invite', { token: newToken, name: 'New Person', password: 'secret1' })).status).toBe(201);
+  });
+});
@@ -0,0 +1,103 @@
+import { Hono, type Context } from 'hono';
+import { AuthError } from '../auth.ts';
+import { findInviteByToken, isInviteExpired, saveInvite } from '../invites.ts';
+import type { AppDeps } from '../app.ts';
+import type { AppEnv, Invite } from '../types.ts';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const checkCredentials = (password: unknown, name: unknown) => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Name is required';
+  }
+  return null;
+};
+
+export function signupRoutes({ kv, auth }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+
+  const authErrorResponse = (c: Context<AppEnv>, error: unknown) => {
+    if (error instanceof AuthError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    throw error;
+  };
+
+  // The open, unexpired invite for `token`, or the response explaining why there is none
+  const resolveInvite = async (c: Context<AppEnv>, token: unknown): Promise<Invite | Response> => {
+    const invite = typeof token === 'string' && token ? await findInviteByToken(kv, token) : null;
+    if (!invite) {
+      return c.json({ error: 'This invite link is not valid. It may have been used, revoked or replaced.' }, 404);
+    }
+    if (isInviteExpired(invite)) {
+      return c.json({ error: 'This invite has expired. Ask for a new one.' }, 410);
+    }
+    return invite;
+  };
+
+  // Always creates a `user` account; a super admin can promote it afterwards
+  // with PUT /users/:id/role. A `role` in the body is ignored.
+  routes.post('/', async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const { email, password, name } = (body ?? {}) as Record<string, unknown>;
+
+    if (typeof email !== 'string' || !email.trim()) {
+      return c.json({ error: 'Email is required' }, 400);
+    }
+    const invalid = checkCredentials(password, name);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    try {
+      const user = await auth.createUser({
+        email: email.trim(),
+        password: password as string,
+        name: (name as string).trim(),
+      });
+      return c.json({ user }, 201);
+    } catch (error) {
+      return authErrorResponse(c, error);
+    }
+  });
+
+  // What the invite acceptance screen shows before the account is created
+  routes.get('/invite/:token', async (c) => {
+    const invite = await resolveInvite(c, c.req.param('token'));
+    if (invite instanceof Response) return invite;
+
+    const { email, name, role, expiresAt } = invite;
+    return c.json({ invite: { email, name, role, expiresAt } });
+  });
+
+  // POST /signup/invite { token, name, password } creates the invited account
+  // with the invite's email and role. The token works once.
+  routes.post('/invite', async (c) => {
+    const { token, password, name } = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const invite = await resolveInvite(c, token);
+    if (invite instanceof Response) return invite;
+
+    const invalid = checkCredentials(password, name);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    try {
+      const created = await auth.createUser({
+        email: invite.email,
+        password: password as string,
+        name: (name as string).trim(),
+      });
+      const user = invite.role === 'user' ? created : await auth.setRole(created.id, invite.role);
+      await saveInvite(kv, { ...invite, acceptedAt: new Date().toISOString(), acceptedUserId: user.id });
+      return c.json({ user }, 201);
+    } catch (error) {
+      return authErrorResponse(c, error);
+    }
+  });
+
+  return routes;
+}
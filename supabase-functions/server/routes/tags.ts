@@ -0,0 +1,94 @@
+import { Hono } from 'hono';
+import { buildAuditEvent, recordAuditEvents } from '../audit.ts';
+import { saveEntries } from '../entries.ts';
+import { requirePermission, requireUser } from '../middleware.ts';
+import { notifySafely } from '../realtime.ts';
+import {
+  MAX_TAGS,
+  applyTags,
+  getTagDefinitions,
+  listTaggedEntries,
+  listTags,
+  makeTagId,
+  parseTagInput,
+  saveTagDefinitions,
+} from '../tags.ts';
+import type { AppDeps } from '../app.ts';
+import type { AppEnv, Tag, UserEntry } from '../types.ts';
+
+export function tagsRoutes({ kv, auth, notifier }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+
+  routes.use('*', requireUser(auth));
+
+  // Anyone who can see the dashboard sees the tags on its entries
+  routes.get('/', requirePermission('entries.view'), async (c) => {
+    return c.json({ tags: await listTags(kv) });
+  });
+
+  routes.post('/', requirePermission('board.manage'), async (c) => {
+    const definitions = await getTagDefinitions(kv);
+    if (definitions.filter(tag => !tag.deletedAt).length >= MAX_TAGS) {
+      return c.json({ error: `At most ${MAX_TAGS} tags can be defined` }, 400);
+    }
+
+    const input = parseTagInput(await c.req.json().catch(() => null), definitions);
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const tag: Tag = { ...input, id: makeTagId(input.name, definitions.map(t => t.id)) };
+    await saveTagDefinitions(kv, [...definitions, tag]);
+
+    return c.json({ tag }, 201);
+  });
+
+  // Renaming or recoloring a tag doesn't touch the entries that have it
+  routes.put('/:id', requirePermission('board.manage'), async (c) => {
+    const definitions = await getTagDefinitions(kv);
+    const existing = definitions.find(tag => tag.id === c.req.param('id') && !tag.deletedAt);
+    if (!existing) {
+      return c.json({ error: 'Tag not found' }, 404);
+    }
+
+    const input = parseTagInput(await c.req.json().catch(() => null), definitions, existing);
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const tag: Tag = { ...input, id: existing.id };
+    await saveTagDefinitions(kv, definitions.map(t => (t.id === tag.id ? tag : t)));
+
+    return c.json({ tag });
+  });
+
+  // Removes the tag from every entry, trashed ones included, so filters and
+  // bulk selections stop matching it. The removal shows in each entry's history.
+  routes.delete('/:id', requirePermission('board.manage'), async (c) => {
+    const definitions = await getTagDefinitions(kv);
+    const existing = definitions.find(tag => tag.id === c.req.param('id') && !tag.deletedAt);
+    if (!existing) {
+      return c.json({ error: 'Tag not found' }, 404);
+    }
+
+    const now = new Date().toISOString();
+    await saveTagDefinitions(kv, definitions.map(t => (t.id === existing.id ? { ...t, deletedAt: now } : t)));
+
+    const tagged = await listTaggedEntries(kv, existing.id);
+    const updated: UserEntry[] = tagged.map(entry => ({
+      ...entry,
+      tags: applyTags(entry.tags, [existing.id], 'untag'),
+      dateModified: now,
+    }));
+    await saveEntries(kv, updated);
+    await recordAuditEvents(
+      kv,
+      updated.map((entry, i) => buildAuditEvent('update', c.get('user'), tagged[i], entry, now))
+    );
+    await notifySafely(notifier, { type: 'update', ids: updated.map(entry => entry.id) });
+
+    return c.json({ success: true, affected: updated.length });
+  });
+
+  return routes;
+}
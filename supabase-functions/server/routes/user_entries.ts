@@ -0,0 +1,624 @@
+import { Hono, type Context } from 'hono';
+import {
+  DEFAULT_LIMIT,
+  MAX_LIMIT,
+  decodeCursor,
+  deleteEntry,
+  findExistingMobiles,
+  getEntry,
+  getEntryStats,
+  listEntriesByUser,
+  parseSort,
+  purgeExpiredEntries,
+  queryEntries,
+  resolveSelection,
+  saveEntries,
+  saveEntry,
+  sortEntries,
+} from '../entries.ts';
+import { SYSTEM_ACTOR, buildAuditEvent, listEntryVersions, recordAuditEvents } from '../audit.ts';
+import { listCustomFields } from '../custom_fields.ts';
+import { dismissDuplicate, findDuplicatePairs, findDuplicateReasons } from '../duplicates.ts';
+import { can, isDisabled } from '../auth.ts';
+import { requirePermission, requireUser } from '../middleware.ts';
+import { firstEntryError, parseEntry, type EntryFieldErrors, type EntryValues } from '../entry_schema.ts';
+import { geocodeMissingEntries, listEntryLocations, locateEntry, relocateEntry } from '../locations.ts';
+import { notifySafely } from '../realtime.ts';
+import { applyTags, listTags } from '../tags.ts';
+import { isStringArray, isTagMode } from '../validation.ts';
+import type { AppDeps } from '../app.ts';
+import type {
+  AppEnv,
+  BatchRequest,
+  BatchSelection,
+  CustomFieldDefinition,
+  EntryChange,
+  EntryLocations,
+  EntryOwner,
+  ImportResult,
+  MergeRequest,
+  OwnEntries,
+  TagMode,
+  UserEntry,
+} from '../types.ts';
+
+const MAX_IMPORT_ROWS = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Edge functions have no scheduler, so expired trash is purged lazily at most
+// this often per instance.
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// 400 body for invalid entry input; the app maps `fieldErrors` onto its form fields.
+const entryErrorBody = (errors: EntryFieldErrors) => ({ error: firstEntryError(errors), fieldErrors: errors });
+
+// Input with only a one-line address replaces any address parts as well.
+// Custom field values and tags are replaced only when the input has them.
+const applyInput = (entry: UserEntry, input: EntryValues): UserEntry => {
+  const { addressParts: _previous, ...rest } = entry;
+  return { ...rest, ...input };
+};
+
+// The `dateModified` the client loaded; null for entries never edited.
+const parseExpectedVersion = (body: unknown): string | null | undefined => {
+  const { dateModified } = (body ?? {}) as Record<string, unknown>;
+  return typeof dateModified === 'string' || dateModified === null ? dateModified : undefined;
+};
+
+// Only entries whose tags the action would change are updated.
+const changesTags = (entry: UserEntry, request: BatchRequest) =>
+  (request.action !== 'tag' && request.action !== 'untag') ||
+  applyTags(entry.tags, request.tagIds, request.action).length !== (entry.tags?.length ?? 0);
+
+const parseSelection = (selection: unknown): BatchSelection | string => {
+  if (!selection || typeof selection !== 'object') return 'selection is required';
+  const { ids, filter, excludeIds } = selection as Record<string, unknown>;
+  if (ids !== undefined) {
+    if (!isStringArray(ids)) return 'selection.ids must be an array of strings';
+    return { ids };
+  }
+  if (filter && typeof filter === 'object') {
+    if (excludeIds !== undefined && !isStringArray(excludeIds)) {
+      return 'selection.excludeIds must be an array of strings';
+    }
+    const { q, from, to, tags, tagMode } = filter as Record<string, unknown>;
+    if (tags !== undefined && !isStringArray(tags)) return 'selection.filter.tags must be an array of strings';
+    if (tagMode !== undefined && !isTagMode(tagMode)) return 'selection.filter.tagMode must be any or all';
+    return {
+      filter: {
+        q: typeof q === 'string' ? q.trim() : undefined,
+        from: typeof from === 'string' ? from : undefined,
+        to: typeof to === 'string' ? to : undefined,
+        tags,
+        tagMode,
+      },
+      excludeIds,
+    };
+  }
+  return 'selection must contain ids or a filter';
+};
+
+const parseBatchRequest = (body: unknown): BatchRequest | string => {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+  const { action, selection, userId, tagIds } = body as Record<string, unknown>;
+
+  const parsedSelection = parseSelection(selection);
+  if (typeof parsedSelection === 'string') return parsedSelection;
+
+  if (action === 'delete') {
+    return { action, selection: parsedSelection };
+  }
+  if (action === 'reassign') {
+    if (typeof userId !== 'string' || !userId.trim()) return 'userId is required to reassign entries';
+    return { action, selection: parsedSelection, userId: userId.trim() };
+  }
+  if (action === 'tag' || action === 'untag') {
+    if (!isStringArray(tagIds) || tagIds.length === 0) return `tagIds are required to ${action} entries`;
+    return { action, selection: parsedSelection, tagIds };
+  }
+  return 'action must be one of: delete, reassign, tag, untag';
+};
+
+const parseMergeRequest = (body: unknown, customFields: CustomFieldDefinition[]): MergeRequest | string => {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+  const { keepId, mergeId, values, keepDateModified, mergeDateModified } = body as Record<string, unknown>;
+  if (typeof keepId !== 'string' || typeof mergeId !== 'string') return 'keepId and mergeId are required';
+  if (keepId === mergeId) return 'An entry cannot be merged into itself';
+  const input = parseEntry(values, { customFields });
+  if (!input.success) return firstEntryError(input.errors);
+  const isVersion = (value: unknown) => typeof value === 'string' || value === null;
+  if (!isVersion(keepDateModified) || !isVersion(mergeDateModified)) {
+    return 'keepDateModified and mergeDateModified are required to merge entries';
+  }
+  return {
+    keepId,
+    mergeId,
+    values: input.data,
+    keepDateModified: keepDateModified as string | null,
+    mergeDateModified: mergeDateModified as string | null,
+  };
+};
+
+const readJson = async (req: Request): Promise<unknown> => {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+};
+
+export function userEntriesRoutes({ kv, auth, config, notifier, geocoder }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+  let lastPurge = 0;
+
+  const notify = (change: EntryChange) => notifySafely(notifier, change);
+
+  // Shared by PUT /:id and PUT /mine/:id; only the board's editors change tags.
+  const updateEntry = async (c: Context<AppEnv>, existing: UserEntry, { withTags }: { withTags: boolean }) => {
+    if (existing.deletedAt) {
+      return c.json({ error: 'Restore this entry from the trash before editing it' }, 409);
+    }
+
+    const body = await readJson(c.req.raw);
+    const parsed = parseEntry(body, {
+      customFields: await listCustomFields(kv),
+      tagIds: withTags ? (await listTags(kv)).map(tag => tag.id) : undefined,
+    });
+    if (!parsed.success) {
+      return c.json(entryErrorBody(parsed.errors), 400);
+    }
+    const input = parsed.data;
+    const expectedVersion = parseExpectedVersion(body);
+    if (expectedVersion === undefined) {
+      return c.json({ error: 'dateModified is required to update an entry' }, 400);
+    }
+    // Reject stale writes and send back the current copy so the client can merge
+    if ((existing.dateModified ?? null) !== expectedVersion) {
+      return c.json({ error: 'This entry was changed by someone else since you opened it', entry: existing }, 409);
+    }
+
+    const entry = await relocateEntry(geocoder, existing, {
+      ...applyInput(existing, input),
+      dateModified: new Date().toISOString(),
+    });
+    await saveEntry(kv, entry);
+    await recordAuditEvents(kv, [buildAuditEvent('update', c.get('user'), existing, entry)]);
+    await notify({ type: 'update', ids: [entry.id] });
+
+    return c.json({ success: true, entry });
+  };
+
+  // Shared by DELETE /:id and DELETE /mine/:id
+  const trashEntry = async (c: Context<AppEnv>, existing: UserEntry) => {
+    if (existing.deletedAt) {
+      return c.json({ error: 'Entry is already in the trash' }, 409);
+    }
+
+    const entry: UserEntry = { ...existing, deletedAt: new Date().toISOString() };
+    await saveEntry(kv, entry);
+    await recordAuditEvents(kv, [buildAuditEvent('delete', c.get('user'), existing, entry)]);
+    await notify({ type: 'update', ids: [entry.id] });
+
+    return c.json({ success: true, entry });
+  };
+
+  // Other people's entries and those in the trash look missing, so users
+  // can't learn anything about them.
+  const getOwnEntry = async (c: Context<AppEnv>) => {
+    const entry = await getEntry(kv, c.req.param('id'));
+    return entry && !entry.deletedAt && entry.userId === c.get('user').id ? entry : undefined;
+  };
+
+  // Entries in the trash, like the trash listing, are only for those who can
+  // restore or purge them.
+  const getVisibleEntry = async (c: Context<AppEnv>) => {
+    const entry = await getEntry(kv, c.req.param('id'));
+    return entry && (!entry.deletedAt || can(c.get('user'), 'entries.delete')) ? entry : undefined;
+  };
+
+  routes.use('*', requireUser(auth));
+
+  routes.use('*', async (_c, next) => {
+    if (Date.now() - lastPurge > PURGE_INTERVAL_MS) {
+      lastPurge = Date.now();
+      try {
+        const purged = await purgeExpiredEntries(kv, config.trashRetentionDays);
+        if (purged.length > 0) {
+          console.log(`Purged ${purged.length} expired entries from the trash`);
+          await recordAuditEvents(kv, purged.map(entry => buildAuditEvent('purge', SYSTEM_ACTOR, entry, undefined)));
+          await notify({ type: 'delete', ids: purged.map(entry => entry.id) });
+        }
+      } catch (error) {
+        console.error('Trash purge error:', error);
+      }
+    }
+    await next();
+  });
+
+  // GET /user-entries?q=&from=&to=&tags=vip,volunteer&tagMode=all&deleted=true&sort=name,-dateAdded&limit=25&cursor=
+  routes.get('/', requirePermission('entries.view'), async (c) => {
+    const { q, from, to, tags, tagMode, deleted, sort: sortParam, limit: limitParam, cursor } = c.req.query();
+
+    // The trash is only for those who can restore or purge from it
+    if (deleted === 'true' && !can(c.get('user'), 'entries.delete')) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const sort = parseSort(sortParam);
+    if (!sort) {
+      return c.json({ error: 'Invalid sort parameter' }, 400);
+    }
+
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return c.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, 400);
+    }
+
+    if (cursor && !decodeCursor(cursor)) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+
+    if (tagMode && !isTagMode(tagMode)) {
+      return c.json({ error: 'tagMode must be any or all' }, 400);
+    }
+
+    return c.json(await queryEntries(kv, {
+      q: q?.trim(),
+      from,
+      to,
+      tags: tags?.split(',').map(id => id.trim()).filter(Boolean),
+      tagMode: tagMode as TagMode | undefined,
+      deleted: deleted === 'true',
+      sort,
+      limit,
+      cursor,
+    }));
+  });
+
+  routes.get('/stats', requirePermission('entries.view'), async (c) => {
+    return c.json({
+      ...(await getEntryStats(kv)),
+      trashRetentionDays: config.trashRetentionDays,
+    });
+  });
+
+  routes.post('/', async (c) => {
+    const body = await readJson(c.req.raw);
+    const parsed = parseEntry(body, { customFields: await listCustomFields(kv), creating: true });
+    if (!parsed.success) {
+      return c.json(entryErrorBody(parsed.errors), 400);
+    }
+    const input = parsed.data;
+
+    // Only the reasons are returned; callers may not be allowed to see the
+    // matching entries. Those who can't view the board are only checked
+    // against their own entries, so the answer can't reveal anyone else's.
+    // Resend with `allowDuplicate: true` to save anyway.
+    if ((body as Record<string, unknown>).allowDuplicate !== true) {
+      const user = c.get('user');
+      const reasons = await findDuplicateReasons(kv, input, can(user, 'entries.view') ? undefined : user.id);
+      if (reasons.length > 0) {
+        return c.json({ error: 'This person may already be on the board', reasons }, 409);
+      }
+    }
+
+    const entry = await locateEntry(geocoder, {
+      ...input,
+      id: crypto.randomUUID(),
+      dateAdded: new Date().toISOString(),
+      userId: c.get('user').id,
+    });
+    await saveEntry(kv, entry);
+    await recordAuditEvents(kv, [buildAuditEvent('create', c.get('user'), undefined, entry)]);
+    await notify({ type: 'insert', ids: [entry.id] });
+
+    return c.json({ success: true, entry }, 201);
+  });
+
+  routes.post('/import', requirePermission('entries.import'), async (c) => {
+    const body = await readJson(c.req.raw);
+    const rows = (body as { entries?: unknown } | null)?.entries;
+    if (!Array.isArray(rows)) {
+      return c.json({ error: 'entries must be an array' }, 400);
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return c.json({ error: `At most ${MAX_IMPORT_ROWS} entries can be imported at once` }, 400);
+    }
+
+    const customFields = await listCustomFields(kv);
+    const userId = c.get('user').id;
+    const dateAdded = new Date().toISOString();
+    const created: UserEntry[] = [];
+    const results: ImportResult[] = rows.map((row, index) => {
+      const parsed = parseEntry(row, { customFields, creating: true });
+      if (!parsed.success) {
+        return { index, status: 'failed', error: firstEntryError(parsed.errors) };
+      }
+      const entry: UserEntry = { ...parsed.data, id: crypto.randomUUID(), dateAdded, userId };
+      created.push(entry);
+      return { index, status: 'created', entry };
+    });
+
+    // Imported entries aren't geocoded here; see POST /locations/geocode
+    await saveEntries(kv, created);
+    await recordAuditEvents(kv, created.map(entry => buildAuditEvent('create', c.get('user'), undefined, entry)));
+    await notify({ type: 'insert', ids: created.map(entry => entry.id) });
+
+    return c.json({ results });
+  });
+
+  routes.post('/existing-mobiles', requirePermission('entries.import'), async (c) => {
+    const body = await readJson(c.req.raw);
+    const mobiles = (body as { mobiles?: unknown } | null)?.mobiles;
+    if (!isStringArray(mobiles)) {
+      return c.json({ error: 'mobiles must be an array of strings' }, 400);
+    }
+
+    return c.json({ existing: await findExistingMobiles(kv, mobiles) });
+  });
+
+  routes.post('/batch', requirePermission('entries.view'), async (c) => {
+    const request = parseBatchRequest(await readJson(c.req.raw));
+    if (typeof request === 'string') {
+      return c.json({ error: request }, 400);
+    }
+    if (!can(c.get('user'), request.action === 'delete' ? 'entries.delete' : 'entries.edit')) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    // Entries moved to an account that doesn't exist couldn't be managed by anyone
+    if (request.action === 'reassign') {
+      const users = await auth.listUsers();
+      if (!users.some(user => user.id === request.userId)) {
+        return c.json({ error: 'Unknown user' }, 400);
+      }
+    }
+
+    if (request.action === 'tag' || request.action === 'untag') {
+      const known = (await listTags(kv)).map(tag => tag.id);
+      if (request.tagIds.some(id => !known.includes(id))) {
+        return c.json({ error: 'Unknown tag' }, 400);
+      }
+    }
+
+    // Entries already in the trash are left alone
+    const targets = (await resolveSelection(kv, request.selection))
+      .filter(entry => !entry.deletedAt && changesTags(entry, request));
+
+    const now = new Date().toISOString();
+    const updated: UserEntry[] = targets.map(entry => {
+      switch (request.action) {
+        case 'delete':
+          return { ...entry, deletedAt: now };
+        case 'reassign':
+          return { ...entry, userId: request.userId, dateModified: now };
+        default:
+          return { ...entry, tags: applyTags(entry.tags, request.tagIds, request.action), dateModified: now };
+      }
+    });
+    // Tagging is recorded as an ordinary update
+    const auditAction = request.action === 'tag' || request.action === 'untag' ? 'update' : request.action;
+    await saveEntries(kv, updated);
+    await recordAuditEvents(
+      kv,
+      updated.map((entry, i) => buildAuditEvent(auditAction, c.get('user'), targets[i], entry, now))
+    );
+    await notify({ type: 'update', ids: updated.map(entry => entry.id) });
+
+    return c.json({ success: true, affected: targets.length });
+  });
+
+  // POST /user-entries/export { selection, sort } returns every selected entry
+  // at once, for the app to write to a file. Entries in the trash are skipped.
+  routes.post('/export', requirePermission('entries.export'), async (c) => {
+    const { selection, sort: sortParam } = ((await readJson(c.req.raw)) ?? {}) as Record<string, unknown>;
+    const parsed = parseSelection(selection);
+    if (typeof parsed === 'string') {
+      return c.json({ error: parsed }, 400);
+    }
+    const sort = parseSort(typeof sortParam === 'string' ? sortParam : undefined);
+    if (!sort) {
+      return c.json({ error: 'Invalid sort parameter' }, 400);
+    }
+
+    const entries = (await resolveSelection(kv, parsed)).filter(entry => !entry.deletedAt);
+    return c.json({ entries: sortEntries(entries, sort) });
+  });
+
+  // Accounts that entries can be reassigned to, for editors who can't list
+  // users themselves. Disabled accounts are left out.
+  routes.get('/owners', requirePermission('entries.edit'), async (c) => {
+    const owners: EntryOwner[] = (await auth.listUsers())
+      .filter(user => !isDisabled(user))
+      .map(user => ({ id: user.id, email: user.email, name: user.user_metadata?.name ?? '' }))
+      .sort((a, b) => a.email.localeCompare(b.email));
+    return c.json({ owners });
+  });
+
+  // The signed-in user's own entries; every account can see and correct what
+  // it added, and delete it for a while afterwards.
+  routes.get('/mine', async (c) => {
+    const result: OwnEntries = {
+      entries: await listEntriesByUser(kv, c.get('user').id),
+      deleteWindowHours: config.ownEntryDeleteHours,
+    };
+    return c.json(result);
+  });
+
+  routes.put('/mine/:id', async (c) => {
+    const existing = await getOwnEntry(c);
+    if (!existing) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    return updateEntry(c, existing, { withTags: false });
+  });
+
+  routes.delete('/mine/:id', async (c) => {
+    const existing = await getOwnEntry(c);
+    if (!existing) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+    if (Date.now() - new Date(existing.dateAdded).getTime() > config.ownEntryDeleteHours * HOUR_MS) {
+      return c.json({ error: `Entries can only be deleted within ${config.ownEntryDeleteHours} hours of adding them` }, 409);
+    }
+
+    return trashEntry(c, existing);
+  });
+
+  routes.get('/duplicates', requirePermission('entries.delete'), async (c) => {
+    return c.json({ pairs: await findDuplicatePairs(kv) });
+  });
+
+  routes.post('/duplicates/dismiss', requirePermission('entries.delete'), async (c) => {
+    const { ids } = ((await readJson(c.req.raw)) ?? {}) as Record<string, unknown>;
+    if (!isStringArray(ids) || ids.length !== 2 || ids[0] === ids[1]) {
+      return c.json({ error: 'ids must contain two different entry ids' }, 400);
+    }
+
+    await dismissDuplicate(kv, [ids[0], ids[1]], c.get('user').id);
+    return c.json({ success: true });
+  });
+
+  // Keeps one entry with the chosen field values and moves the other to the
+  // trash, marked as merged. Both keep their history.
+  routes.post('/merge', requirePermission('entries.delete'), async (c) => {
+    const request = parseMergeRequest(await readJson(c.req.raw), await listCustomFields(kv));
+    if (typeof request === 'string') {
+      return c.json({ error: request }, 400);
+    }
+
+    const [keep, merged] = await Promise.all([getEntry(kv, request.keepId), getEntry(kv, request.mergeId)]);
+    if (!keep || !merged) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+    if (keep.deletedAt || merged.deletedAt) {
+      return c.json({ error: 'Restore both entries from the trash before merging them' }, 409);
+    }
+    if (
+      (keep.dateModified ?? null) !== request.keepDateModified ||
+      (merged.dateModified ?? null) !== request.mergeDateModified
+    ) {
+      return c.json({ error: 'One of these entries was changed by someone else. Reload and try again.' }, 409);
+    }
+
+    // Unless the chosen custom values are sent, those the kept entry has no
+    // value for are filled in from the merged one. It gets the tags of both.
+    const customFields = request.values.customFields ?? { ...merged.customFields, ...keep.customFields };
+    const tags = applyTags(keep.tags, merged.tags ?? [], 'tag');
+    const now = new Date().toISOString();
+    const kept = await relocateEntry(geocoder, keep, {
+      ...applyInput(keep, request.values),
+      ...(Object.keys(customFields).length > 0 && { customFields }),
+      ...(tags.length > 0 && { tags }),
+      dateModified: now,
+    });
+    const retired: UserEntry = { ...merged, mergedInto: keep.id, deletedAt: now };
+    await saveEntries(kv, [kept, retired]);
+    await recordAuditEvents(kv, [
+      { ...buildAuditEvent('merge', c.get('user'), keep, kept, now), relatedEntryId: merged.id },
+      { ...buildAuditEvent('merge', c.get('user'), merged, retired, now), relatedEntryId: keep.id },
+    ]);
+    await notify({ type: 'update', ids: [keep.id, merged.id] });
+
+    return c.json({ success: true, entry: kept });
+  });
+
+  routes.get('/locations', requirePermission('entries.view'), async (c) => {
+    const locations: EntryLocations = {
+      ...(await listEntryLocations(kv)),
+      geocodingEnabled: config.geocoder !== 'none',
+    };
+    return c.json(locations);
+  });
+
+  // Imports and entries saved before geocoding was set up have no location;
+  // each call looks up the next batch of them.
+  routes.post('/locations/geocode', requirePermission('entries.edit'), async (c) => {
+    if (config.geocoder === 'none') {
+      return c.json({ error: 'Geocoding is not configured on this server' }, 409);
+    }
+
+    const { located, remaining } = await geocodeMissingEntries(kv, geocoder);
+    await notify({ type: 'update', ids: located.map(entry => entry.id) });
+
+    return c.json({ located: located.length, remaining });
+  });
+
+  routes.get('/:id', requirePermission('entries.view'), async (c) => {
+    const entry = await getVisibleEntry(c);
+    if (!entry) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    return c.json({ entry });
+  });
+
+  routes.get('/:id/versions', requirePermission('entries.view'), async (c) => {
+    const entry = await getVisibleEntry(c);
+    if (!entry) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    return c.json({ versions: await listEntryVersions(kv, entry) });
+  });
+
+  routes.put('/:id', requirePermission('entries.edit'), async (c) => {
+    const existing = await getVisibleEntry(c);
+    if (!existing) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    return updateEntry(c, existing, { withTags: true });
+  });
+
+  // Moves the entry to the trash; see /:id/restore and /:id/purge.
+  routes.delete('/:id', requirePermission('entries.delete'), async (c) => {
+    const existing = await getEntry(kv, c.req.param('id'));
+    if (!existing) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    return trashEntry(c, existing);
+  });
+
+  routes.post('/:id/restore', requirePermission('entries.delete'), async (c) => {
+    const existing = await getEntry(kv, c.req.param('id'));
+    if (!existing) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+    if (!existing.deletedAt) {
+      return c.json({ error: 'Entry is not in the trash' }, 409);
+    }
+
+    const { deletedAt: _deletedAt, mergedInto: _mergedInto, ...entry } = existing;
+    await saveEntry(kv, entry);
+    await recordAuditEvents(kv, [buildAuditEvent('restore', c.get('user'), existing, entry)]);
+    await notify({ type: 'update', ids: [entry.id] });
+
+    return c.json({ success: true, entry });
+  });
+
+  routes.delete('/:id/purge', requirePermission('entries.delete'), async (c) => {
+    const existing = await getEntry(kv, c.req.param('id'));
+    if (!existing) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+    if (!existing.deletedAt) {
+      return c.json({ error: 'Only entries in the trash can be purged' }, 409);
+    }
+
+    await deleteEntry(kv, existing.id);
+    await recordAuditEvents(kv, [buildAuditEvent('purge', c.get('user'), existing, undefined)]);
+    await notify({ type: 'delete', ids: [existing.id] });
+
+    return c.json({ success: true });
+  });
+
+  return routes;
+}
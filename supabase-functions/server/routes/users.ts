@@ -0,0 +1,80 @@
+import { Hono, type Context } from 'hono';
+import { AuthError } from '../auth.ts';
+import { countEntriesByUser } from '../entries.ts';
+import { requirePermission, requireUser } from '../middleware.ts';
+import { ROLES } from '../permissions.ts';
+import { byEmail, parseRedirectTo, toManagedUser } from '../users.ts';
+import type { AppDeps } from '../app.ts';
+import type { AppEnv, AuthUser, Role } from '../types.ts';
+
+export function usersRoutes({ kv, auth }: AppDeps) {
+  const routes = new Hono<AppEnv>();
+
+  routes.use('*', requireUser(auth), requirePermission('users.manage'));
+
+  // Runs an auth provider call, answering its AuthErrors with their status.
+  const withAuthErrors = async (c: Context<AppEnv>, action: () => Promise<Response>) => {
+    try {
+      return await action();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return c.json({ error: error.message }, error.status);
+      }
+      throw error;
+    }
+  };
+
+  const managedUser = async (user: AuthUser) =>
+    toManagedUser(user, (await countEntriesByUser(kv))[user.id] ?? 0);
+
+  routes.get('/', async (c) => {
+    const [users, counts] = await Promise.all([auth.listUsers(), countEntriesByUser(kv)]);
+    return c.json({ users: users.map(user => toManagedUser(user, counts[user.id] ?? 0)).sort(byEmail) });
+  });
+
+  // The only way to change an account's role. Admins can't change
+  // their own role, so the last one can't lock everyone out.
+  routes.put('/:id/role', async (c) => {
+    const id = c.req.param('id');
+    const { role } = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    if (!ROLES.includes(role as Role)) {
+      return c.json({ error: `role must be one of: ${ROLES.join(', ')}` }, 400);
+    }
+    if (id === c.get('user').id) {
+      return c.json({ error: 'You cannot change your own role' }, 400);
+    }
+
+    return withAuthErrors(c, async () => c.json({ user: await managedUser(await auth.setRole(id, role as Role)) }));
+  });
+
+  routes.post('/:id/disable', async (c) => {
+    const id = c.req.param('id');
+    if (id === c.get('user').id) {
+      return c.json({ error: 'You cannot disable your own account' }, 400);
+    }
+
+    return withAuthErrors(c, async () => c.json({ user: await managedUser(await auth.setDisabled(id, true)) }));
+  });
+
+  routes.post('/:id/enable', async (c) => {
+    return withAuthErrors(c, async () =>
+      c.json({ user: await managedUser(await auth.setDisabled(c.req.param('id'), false)) })
+    );
+  });
+
+  // POST /users/:id/reset-password { redirectTo } returns a one-time link for
+  // choosing a new password; the current one keeps working until then.
+  routes.post('/:id/reset-password', async (c) => {
+    const { redirectTo } = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const target = parseRedirectTo(redirectTo);
+    if (target === null) {
+      return c.json({ error: 'redirectTo must be an http(s) URL' }, 400);
+    }
+
+    return withAuthErrors(c, async () =>
+      c.json({ link: await auth.createPasswordResetLink(c.req.param('id'), target) })
+    );
+  });
+
+  return routes;
+}
@@ -0,0 +1,32 @@
+// The filters a saved view stores, shared by the server and the app
+// (re-exported from src/lib/savedViews.ts) so both sides store the same
+// filters for the same dashboard state. Only import other shared modules here.
+import type { DirectoryColumn, SavedViewFilters } from './types.ts';
+
+export const DIRECTORY_COLUMNS: { key: DirectoryColumn; label: string }[] = [
+  { key: 'mobile', label: 'Mobile Number' },
+  { key: 'address', label: 'Address' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'dateAdded', label: 'Date Added' },
+];
+
+export const ALL_DIRECTORY_COLUMNS = DIRECTORY_COLUMNS.map(({ key }) => key);
+
+// Drops empty values and defaults (any-tag matching, every column), so two
+// views compare equal however their filters were built. Tags are sorted, as
+// the order they were picked in doesn't matter.
+export function normalizeFilters({ q, from, to, tags, tagMode, sort, columns }: SavedViewFilters): SavedViewFilters {
+  const filters: SavedViewFilters = {};
+  if (q?.trim()) filters.q = q.trim();
+  if (from) filters.from = from;
+  if (to) filters.to = to;
+  if (tags && tags.length > 0) {
+    filters.tags = [...tags].sort();
+    if (tagMode === 'all') filters.tagMode = 'all';
+  }
+  if (sort) filters.sort = sort;
+  if (columns && columns.length < ALL_DIRECTORY_COLUMNS.length) {
+    filters.columns = ALL_DIRECTORY_COLUMNS.filter(column => columns.includes(column));
+  }
+  return filters;
+}
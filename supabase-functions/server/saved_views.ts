@@ -0,0 +1,101 @@
+import { parseSort } from './entries.ts';
+import type { KvStore } from './kv_store.ts';
+import { ALL_DIRECTORY_COLUMNS, normalizeFilters } from './saved_view_schema.ts';
+import type { DirectoryColumn, SavedView, SavedViewFilters } from './types.ts';
+import { isStringArray, isTagMode } from './validation.ts';
+
+const viewKey = (id: string) => `saved_view:${id}`;
+// Each user's pinned views, in tab order
+const pinsKey = (userId: string) => `saved_view_pins:${userId}`;
+
+export const MAX_VIEWS_PER_OWNER = 50;
+const MAX_NAME_LENGTH = 60;
+const MAX_SEARCH_LENGTH = 200;
+
+// The user's own views and those shared by others, sorted by name.
+export async function listVisibleViews(kv: KvStore, userId: string): Promise<SavedView[]> {
+  return (await kv.getByPrefix<SavedView>('saved_view:'))
+    .filter(view => view.ownerId === userId || view.shared)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getView(kv: KvStore, id: string): Promise<SavedView | undefined> {
+  return kv.get<SavedView>(viewKey(id));
+}
+
+export async function saveView(kv: KvStore, view: SavedView): Promise<void> {
+  await kv.set(viewKey(view.id), view);
+}
+
+export async function deleteView(kv: KvStore, id: string): Promise<void> {
+  await kv.del(viewKey(id));
+}
+
+// May include views that were deleted or unshared since they were pinned.
+export async function getPinnedViewIds(kv: KvStore, userId: string): Promise<string[]> {
+  return (await kv.get<string[]>(pinsKey(userId))) ?? [];
+}
+
+export async function savePinnedViewIds(kv: KvStore, userId: string, ids: string[]): Promise<void> {
+  await kv.set(pinsKey(userId), ids);
+}
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'filters' | 'shared'>;
+
+const isDate = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Checks the filter types, then stores them through normalizeFilters like the
+// app does, so views compare equal however they were built.
+function parseFilters(raw: Record<string, unknown>): SavedViewFilters | string {
+  const { q, from, to, tags, tagMode, sort, columns } = raw;
+
+  if (q !== undefined && typeof q !== 'string') return 'filters.q must be a string';
+  if (typeof q === 'string' && q.trim().length > MAX_SEARCH_LENGTH) {
+    return `filters.q must be at most ${MAX_SEARCH_LENGTH} characters`;
+  }
+
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== undefined && value !== '' && !isDate(value)) return `filters.${name} must be a date`;
+  }
+
+  if (tags !== undefined && !isStringArray(tags)) return 'filters.tags must be an array of strings';
+  if (tagMode !== undefined && !isTagMode(tagMode)) return 'filters.tagMode must be any or all';
+
+  if (sort !== undefined && typeof sort !== 'string') return 'filters.sort must be a string';
+  if (sort && !parseSort(sort)) return 'filters.sort has an unknown field';
+
+  if (
+    columns !== undefined &&
+    (!isStringArray(columns) || !columns.every(column => ALL_DIRECTORY_COLUMNS.includes(column as DirectoryColumn)))
+  ) {
+    return `filters.columns must only contain: ${ALL_DIRECTORY_COLUMNS.join(', ')}`;
+  }
+
+  return normalizeFilters({
+    q,
+    from: from as string | undefined,
+    to: to as string | undefined,
+    tags,
+    tagMode,
+    sort,
+    columns: columns as DirectoryColumn[] | undefined,
+  });
+}
+
+// Checks a view sent by the dashboard. Returns an error message when invalid.
+export function parseSavedViewInput(body: unknown): SavedViewInput | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+  const { name: rawName, filters: rawFilters, shared } = body as Record<string, unknown>;
+
+  const name = typeof rawName === 'string' ? rawName.trim() : '';
+  if (!name) return 'name is required';
+  if (name.length > MAX_NAME_LENGTH) return `name must be at most ${MAX_NAME_LENGTH} characters`;
+
+  if (!rawFilters || typeof rawFilters !== 'object') return 'filters must be an object';
+  const filters = parseFilters(rawFilters as Record<string, unknown>);
+  if (typeof filters === 'string') return filters;
+
+  return { name, filters, shared: shared === true };
+}
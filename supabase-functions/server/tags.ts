@@ -0,0 +1,62 @@
+import { makeFieldKey } from './custom_fields.ts';
+import type { KvStore } from './kv_store.ts';
+import type { Tag, TagColor, UserEntry } from './types.ts';
+
+// All tags live under one key, sorted by name, including deleted ones.
+const TAGS_KEY = 'settings:tags';
+
+export const TAG_COLORS: TagColor[] = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'];
+
+export const MAX_TAGS = 100;
+const MAX_NAME_LENGTH = 40;
+
+export async function getTagDefinitions(kv: KvStore): Promise<Tag[]> {
+  return (await kv.get<Tag[]>(TAGS_KEY)) ?? [];
+}
+
+export async function saveTagDefinitions(kv: KvStore, tags: Tag[]): Promise<void> {
+  await kv.set(TAGS_KEY, [...tags].sort((a, b) => a.name.localeCompare(b.name)));
+}
+
+// The tags that can be attached to entries.
+export async function listTags(kv: KvStore): Promise<Tag[]> {
+  return (await getTagDefinitions(kv)).filter(tag => !tag.deletedAt);
+}
+
+// Ids are built like custom field keys: `Needs follow-up` becomes `needs_follow_up`.
+export const makeTagId = (name: string, taken: string[]) => makeFieldKey(name, taken);
+
+export type TagInput = Pick<Tag, 'name' | 'color'>;
+
+// Checks a tag sent by the admin screen. `existing` is the tag being edited.
+// Returns an error message when invalid.
+export function parseTagInput(body: unknown, tags: Tag[], existing?: Tag): TagInput | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+  const { name: rawName, color } = body as Record<string, unknown>;
+
+  const name = typeof rawName === 'string' ? rawName.trim() : '';
+  if (!name) return 'name is required';
+  if (name.length > MAX_NAME_LENGTH) return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  const sameName = tags.find(tag => !tag.deletedAt && tag.name.toLowerCase() === name.toLowerCase());
+  if (sameName && sameName.id !== existing?.id) return 'Another tag already has this name';
+
+  if (!TAG_COLORS.includes(color as TagColor)) {
+    return `color must be one of: ${TAG_COLORS.join(', ')}`;
+  }
+
+  return { name, color: color as TagColor };
+}
+
+// `current` with `tagIds` added (at the end) or removed.
+export function applyTags(current: string[] = [], tagIds: string[], action: 'tag' | 'untag'): string[] {
+  return action === 'tag'
+    ? [...current, ...tagIds.filter(id => !current.includes(id))]
+    : current.filter(id => !tagIds.includes(id));
+}
+
+// Every entry with the tag, trashed ones included.
+export async function listTaggedEntries(kv: KvStore, tagId: string): Promise<UserEntry[]> {
+  return (await kv.getByPrefix<UserEntry>('user_entry:')).filter(entry => entry.tags?.includes(tagId));
+}
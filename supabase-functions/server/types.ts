@@ -0,0 +1,299 @@
+// Types shared by the server and the app (re-exported from
+// src/types/index.tsx), so this file must not import anything.
+
+export type Role = 'user' | 'viewer' | 'editor' | 'exporter' | 'super_admin';
+
+export type AuthUser = {
+  id: string;
+  email: string;
+  // Only the server can write app metadata, so the role is kept there.
+  app_metadata?: {
+    role?: Role;
+  };
+  // Editable by the user themselves; never trusted for authorization.
+  user_metadata?: {
+    name?: string;
+  };
+  created_at?: string;
+  last_sign_in_at?: string | null;
+  // Set while the account is disabled
+  banned_until?: string;
+};
+
+// An account as listed on the dashboard's Users tab.
+export type ManagedUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+  disabled: boolean;
+  // Entries the account created that aren't in the trash
+  entryCount: number;
+};
+
+// An account that entries can be reassigned to.
+export type EntryOwner = Pick<ManagedUser, 'id' | 'email' | 'name'>;
+
+// An invitation to create an account, stored under `invite:<id>`. Only a
+// hash of the emailed token is kept; resending replaces the token.
+export type Invite = {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  tokenHash: string;
+  invitedBy: string;
+  invitedByEmail: string;
+  createdAt: string;
+  sentAt: string;
+  expiresAt: string;
+  acceptedAt?: string;
+  acceptedUserId?: string;
+  revokedAt?: string;
+};
+
+// An invite as listed for admins, without its token hash.
+export type PendingInvite = Omit<Invite, 'tokenHash' | 'acceptedAt' | 'acceptedUserId' | 'revokedAt'> & {
+  expired: boolean;
+};
+
+// Empty strings for parts that weren't given.
+export type AddressParts = {
+  line1: string;
+  line2: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+};
+
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+export type CustomFieldType = 'text' | 'textarea' | 'email' | 'number' | 'date' | 'select' | 'checkbox';
+
+// Dates are `YYYY-MM-DD` strings; checkboxes are booleans.
+export type CustomFieldValue = string | number | boolean;
+
+// An extra field super admins add to every entry.
+export type CustomFieldDefinition = {
+  // Values are stored under this key; derived from the label when the field
+  // is created and never changed
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  // Choices for `select` fields
+  options?: string[];
+  // Length limits for text and email fields, value limits for numbers
+  min?: number;
+  max?: number;
+  // Regular expression that text values must match
+  pattern?: string;
+  // Set once the field is deleted, so its key isn't reused for another field
+  deletedAt?: string;
+};
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+// A label super admins attach to entries to group them.
+export type Tag = {
+  // Entries refer to the tag by this id; derived from the name when the tag
+  // is created and never changed
+  id: string;
+  name: string;
+  color: TagColor;
+  // Set once the tag is deleted, so its id isn't reused for another tag
+  deletedAt?: string;
+};
+
+export type UserEntry = {
+  id: string;
+  name: string;
+  mobile: string;
+  // The whole address on one line; derived from `addressParts` when present
+  address: string;
+  // Missing on entries saved before addresses were split into parts
+  addressParts?: AddressParts;
+  // Found by geocoding `address`; missing when no geocoder is configured or
+  // the address couldn't be found
+  location?: GeoPoint;
+  // Values by custom field key; fields left empty are omitted
+  customFields?: Record<string, CustomFieldValue>;
+  // Tag ids; missing when the entry has never been tagged
+  tags?: string[];
+  dateAdded: string;
+  dateModified?: string;
+  userId: string;
+  // Set while the entry is in the trash
+  deletedAt?: string;
+  // Set when the entry was merged into another one (and moved to the trash)
+  mergedInto?: string;
+};
+
+export type AppEnv = {
+  Variables: {
+    user: AuthUser;
+  };
+};
+
+export type SortField = 'name' | 'mobile' | 'address' | 'dateAdded' | 'deletedAt';
+
+export type SortSpec = {
+  field: SortField;
+  direction: 'asc' | 'desc';
+};
+
+export type TagMode = 'any' | 'all';
+
+export type EntryQuery = {
+  q?: string;
+  from?: string;
+  to?: string;
+  // Tag ids; entries need any of them, or all of them when `tagMode` is `all`
+  tags?: string[];
+  tagMode?: TagMode;
+  // List the trash instead of live entries
+  deleted?: boolean;
+  sort: SortSpec[];
+  limit: number;
+  cursor?: string;
+};
+
+export type EntryPage = {
+  entries: UserEntry[];
+  total: number;
+  nextCursor: string | null;
+};
+
+// The signed-in user's own entries, newest first
+export type OwnEntries = {
+  entries: UserEntry[];
+  // How long after adding an entry its owner can still delete it
+  deleteWindowHours: number;
+};
+
+export type EntryFilter = Pick<EntryQuery, 'q' | 'from' | 'to' | 'tags' | 'tagMode' | 'deleted'>;
+
+// Either explicit ids, or everything matching a filter (minus exclusions).
+export type BatchSelection =
+  | { ids: string[] }
+  | { filter: EntryFilter; excludeIds?: string[] };
+
+export type BatchRequest =
+  | { action: 'delete'; selection: BatchSelection }
+  | { action: 'reassign'; selection: BatchSelection; userId: string }
+  | { action: 'tag' | 'untag'; selection: BatchSelection; tagIds: string[] };
+
+// Optional People Directory columns; the name is always shown.
+export type DirectoryColumn = 'mobile' | 'address' | 'tags' | 'dateAdded';
+
+// The dashboard state a saved view brings back.
+export type SavedViewFilters = {
+  q?: string;
+  from?: string;
+  to?: string;
+  tags?: string[];
+  tagMode?: TagMode;
+  // In the format of the `sort` query parameter, e.g. `name,-dateAdded`
+  sort?: string;
+  // Columns to show, in table order; every column when missing
+  columns?: DirectoryColumn[];
+};
+
+export type SavedView = {
+  id: string;
+  name: string;
+  filters: SavedViewFilters;
+  ownerId: string;
+  // Kept so others can see who shared the view
+  ownerEmail: string;
+  // Shared views are listed for everyone who can see the dashboard, but only
+  // the owner can change them
+  shared: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ImportResult =
+  | { index: number; status: 'created'; entry: UserEntry }
+  | { index: number; status: 'failed'; error: string };
+
+// Broadcast after entries change. Moving an entry to or from the trash is an
+// update; `delete` means the entry is gone for good.
+export type EntryChange = {
+  type: 'insert' | 'update' | 'delete';
+  ids: string[];
+};
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'reassign' | 'merge';
+
+export type AuditChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type AuditEvent = {
+  id: string;
+  action: AuditAction;
+  entryId: string;
+  // Kept so the event stays readable after the entry is purged
+  entryName: string;
+  // `system` for automatic trash purges
+  actorId: string;
+  actorEmail: string;
+  timestamp: string;
+  changes: AuditChange[];
+  // For merges, the other entry involved
+  relatedEntryId?: string;
+};
+
+export type AuditQuery = {
+  actorId?: string;
+  entryId?: string;
+  from?: string;
+  to?: string;
+  limit: number;
+  cursor?: string;
+};
+
+// The entry as it stood right after `event` was applied
+export type EntryVersion = {
+  event: AuditEvent;
+  entry: Pick<
+    UserEntry,
+    'name' | 'mobile' | 'address' | 'addressParts' | 'customFields' | 'tags' | 'userId' | 'deletedAt' | 'mergedInto'
+  >;
+};
+
+export type DuplicateReason = 'mobile' | 'name' | 'address';
+
+export type DuplicatePair = {
+  entries: [UserEntry, UserEntry];
+  reasons: DuplicateReason[];
+};
+
+export type MergeRequest = {
+  keepId: string;
+  mergeId: string;
+  // The field values the kept entry ends up with. Without `customFields`, the
+  // kept entry's custom values are filled in from the merged one
+  values: Pick<UserEntry, 'name' | 'mobile' | 'address' | 'addressParts' | 'customFields'>;
+  // The `dateModified` of each entry as the client loaded it
+  keepDateModified: string | null;
+  mergeDateModified: string | null;
+};
+
+export type MapPoint = Pick<UserEntry, 'id' | 'name' | 'address'> & { location: GeoPoint };
+
+export type EntryLocations = {
+  points: MapPoint[];
+  // Live entries without a location yet
+  unlocated: number;
+  geocodingEnabled: boolean;
+};
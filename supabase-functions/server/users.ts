@@ -0,0 +1,31 @@
+import { isDisabled, roleOf } from './auth.ts';
+import type { AuthUser, ManagedUser } from './types.ts';
+
+export function toManagedUser(user: AuthUser, entryCount: number): ManagedUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.user_metadata?.name ?? '',
+    role: roleOf(user),
+    createdAt: user.created_at ?? null,
+    lastSignInAt: user.last_sign_in_at ?? null,
+    disabled: isDisabled(user),
+    entryCount,
+  };
+}
+
+// Accounts are listed by email so the table keeps a stable order.
+export const byEmail = (a: ManagedUser, b: ManagedUser) => a.email.localeCompare(b.email);
+
+// Where a password reset link lands, or the app an invite links to. Supabase
+// also checks reset links against the project's allowed redirect URLs.
+export function parseRedirectTo(value: unknown): string | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,9 @@
+// Checks on request bodies shared by more than one route.
+import type { TagMode } from './types.ts';
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const TAG_MODES: TagMode[] = ['any', 'all'];
+
+export const isTagMode = (value: unknown): value is TagMode => TAG_MODES.includes(value as TagMode);